@@ -0,0 +1,109 @@
+// Admin Backfill API
+// Starts historical imports and reports checkpoint progress
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { requireAdmin } from '@/lib/auth/guard'
+import { recordAudit } from '@/lib/audit'
+import {
+  runBackfill,
+  serializeCheckpoint,
+  BACKFILL_SOURCES,
+  InvalidBackfillError,
+} from '@/lib/blockchain/backfill'
+import { isSupportedNetwork } from '@/lib/blockchain/indexer'
+import { z } from 'zod'
+import { BackfillStatus } from '@prisma/client'
+
+// Backfills run inside the request; longer ones resume when the same request is posted again
+export const maxDuration = 300
+
+// Request body schema
+const backfillSchema = z
+  .object({
+    network: z.string().refine(isSupportedNetwork, 'Unsupported network'),
+    addresses: z
+      .array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address'))
+      .min(1)
+      .max(50),
+    fromBlock: z.number().int().min(0),
+    toBlock: z.number().int().min(0).optional(),
+    sources: z.array(z.enum(BACKFILL_SOURCES)).optional(),
+  })
+  .refine((data) => data.toBlock === undefined || data.fromBlock <= data.toBlock, {
+    message: 'fromBlock must not be after toBlock',
+    path: ['fromBlock'],
+  })
+
+// Query parameters schema
+const querySchema = z.object({
+  network: z.string().optional(),
+  status: z.nativeEnum(BackfillStatus).optional(),
+})
+
+/**
+ * POST /api/admin/backfill - Run a backfill
+ * Body: { network, addresses, fromBlock, toBlock?, sources? }
+ * Responds with the checkpoints once the run ends; a FAILED or unfinished checkpoint is
+ * resumed by posting the same request again. Checkpoints another run still holds (including
+ * one cut off by maxDuration, until it goes stale) are listed under running instead.
+ * Large ranges belong in `npm run backfill`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+
+    const body = await request.json()
+    const data = backfillSchema.parse(body)
+
+    await recordAudit({
+      actor: admin,
+      action: 'backfill.start',
+      entityType: 'Backfill',
+      entityId: data.network,
+      metadata: data,
+      request,
+    })
+
+    const summary = await runBackfill(data)
+
+    return successResponse(summary)
+  } catch (error) {
+    if (error instanceof InvalidBackfillError) {
+      return errorResponse(error.message, 400)
+    }
+    return handleApiError(error)
+  }
+}
+
+/**
+ * GET /api/admin/backfill - List backfill checkpoints
+ * Query: ?network=base&status=RUNNING
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const searchParams = request.nextUrl.searchParams
+    const params = querySchema.parse({
+      network: searchParams.get('network') || undefined,
+      status: searchParams.get('status') || undefined,
+    })
+
+    const checkpoints = await prisma.backfillCheckpoint.findMany({
+      where: {
+        network: params.network,
+        status: params.status,
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: 100,
+    })
+
+    return successResponse({
+      checkpoints: checkpoints.map(serializeCheckpoint),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
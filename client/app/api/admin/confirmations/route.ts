@@ -0,0 +1,29 @@
+// Admin Confirmation Tracker API
+// Runs the confirmation tracker (intended for a cron job)
+
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { requireAdmin } from '@/lib/auth/guard'
+import { trackConfirmations } from '@/lib/blockchain/confirmations'
+import { isSupportedNetwork, SUPPORTED_NETWORKS } from '@/lib/blockchain/indexer'
+
+/**
+ * POST /api/admin/confirmations - Promote confirmed transactions and detect reorgs
+ * Query: ?network=base (defaults to all supported networks)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const network = request.nextUrl.searchParams.get('network')
+    if (network && !isSupportedNetwork(network)) {
+      return errorResponse(`Unsupported network: ${network}`, 400)
+    }
+
+    const summaries = await trackConfirmations(network ? [network] : SUPPORTED_NETWORKS)
+
+    return successResponse({ networks: summaries })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
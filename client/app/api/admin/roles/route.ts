@@ -0,0 +1,220 @@
+// Admin Roles API
+// Manages roles and the permission set each one grants
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ApiError, successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { requirePermission } from '@/lib/auth/guard'
+import { recordAudit, diffChanges } from '@/lib/audit'
+import { PERMISSIONS } from '@/lib/auth/roles'
+import { z } from 'zod'
+import { Prisma, UserRole } from '@prisma/client'
+
+// Fields returned for each role, with the number of users holding it as a custom role
+const roleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { users: true } },
+} satisfies Prisma.RoleSelect
+
+// Unknown keys are rejected; duplicates are dropped and the list is kept in a stable order
+const permissionsSchema = z
+  .array(z.enum(PERMISSIONS))
+  .transform((permissions) => PERMISSIONS.filter((permission) => permissions.includes(permission)))
+
+// Request body schemas
+const createSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2)
+    .max(50)
+    .regex(/^[A-Za-z0-9_ -]+$/, 'Role names may only contain letters, numbers, spaces, _ and -'),
+  description: z.string().trim().max(200).optional(),
+  permissions: permissionsSchema,
+})
+
+const updateSchema = z
+  .object({
+    roleId: z.string().min(1),
+    description: z.string().trim().max(200).nullable().optional(),
+    permissions: permissionsSchema.optional(),
+  })
+  .refine(
+    ({ description, permissions }) => description !== undefined || permissions !== undefined,
+    'At least one field must be updated'
+  )
+
+/**
+ * GET /api/admin/roles - List roles and their permissions
+ */
+export async function GET() {
+  try {
+    await requirePermission('manageUsers')
+
+    const roles = await prisma.role.findMany({
+      select: roleSelect,
+      orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+    })
+
+    return successResponse({ roles, permissions: PERMISSIONS })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/admin/roles - Create a custom role
+ * Body: { name, description?, permissions }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requirePermission('manageUsers')
+
+    const body = await request.json()
+    const data = createSchema.parse(body)
+
+    const existing = await prisma.role.findUnique({ where: { name: data.name } })
+    if (existing) {
+      return errorResponse('A role with this name already exists', 409)
+    }
+
+    const role = await prisma.$transaction(async (tx) => {
+      const created = await tx.role.create({ data, select: roleSelect })
+
+      await recordAudit(
+        {
+          actor: admin,
+          action: 'role.create',
+          entityType: 'Role',
+          entityId: created.id,
+          changes: diffChanges({}, data),
+          request,
+        },
+        tx
+      )
+
+      return created
+    })
+
+    return successResponse(role, 201)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * PATCH /api/admin/roles - Update a role's description or permissions
+ * Body: { roleId, description?, permissions? }
+ * System roles can be edited, which changes the defaults for everyone holding that role;
+ * the ADMIN role always keeps manageUsers so role and user management can't be locked out
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const admin = await requirePermission('manageUsers')
+
+    const body = await request.json()
+    const { roleId, ...update } = updateSchema.parse(body)
+
+    const role = await prisma.$transaction(async (tx) => {
+      const existing = await tx.role.findUnique({ where: { id: roleId }, select: roleSelect })
+      if (!existing) {
+        return null
+      }
+
+      if (
+        existing.isSystem &&
+        existing.name === UserRole.ADMIN &&
+        update.permissions &&
+        !update.permissions.includes('manageUsers')
+      ) {
+        throw new ApiError('The ADMIN role must keep the manageUsers permission', 400)
+      }
+
+      const changes = diffChanges(existing, update)
+      if (Object.keys(changes).length === 0) {
+        return existing
+      }
+
+      const updated = await tx.role.update({
+        where: { id: roleId },
+        data: update,
+        select: roleSelect,
+      })
+
+      await recordAudit(
+        {
+          actor: admin,
+          action: 'role.update',
+          entityType: 'Role',
+          entityId: roleId,
+          changes,
+          request,
+        },
+        tx
+      )
+
+      return updated
+    })
+
+    if (!role) {
+      return errorResponse('Role not found', 404)
+    }
+
+    return successResponse(role)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/admin/roles?roleId=... - Delete a custom role
+ * Users holding it fall back to their built-in role
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const admin = await requirePermission('manageUsers')
+
+    const roleId = request.nextUrl.searchParams.get('roleId')
+    if (!roleId) {
+      return errorResponse('roleId is required', 400)
+    }
+
+    const role = await prisma.role.findUnique({ where: { id: roleId }, select: roleSelect })
+    if (!role) {
+      return errorResponse('Role not found', 404)
+    }
+
+    if (role.isSystem) {
+      return errorResponse('System roles cannot be deleted', 400)
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.role.delete({ where: { id: roleId } })
+
+      await recordAudit(
+        {
+          actor: admin,
+          action: 'role.delete',
+          entityType: 'Role',
+          entityId: roleId,
+          changes: {
+            name: { from: role.name, to: null },
+            permissions: { from: role.permissions, to: null },
+          },
+          request,
+        },
+        tx
+      )
+    })
+
+    return successResponse({ deleted: true, usersReassigned: role._count.users })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
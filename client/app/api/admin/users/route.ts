@@ -0,0 +1,222 @@
+// Admin User Management API
+// Lists users and updates roles, KYC status, region and merchant assignment
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { requirePermission } from '@/lib/auth/guard'
+import { recordAudit, diffChanges, type AuditChanges } from '@/lib/audit'
+import { PERMISSIONS, type Permission } from '@/lib/auth/roles'
+import { z } from 'zod'
+import { Prisma, UserRole, KycStatus } from '@prisma/client'
+
+// Fields returned for each user
+const userSelect = {
+  id: true,
+  walletAddress: true,
+  email: true,
+  role: true,
+  socialProvider: true,
+  kycStatus: true,
+  region: true,
+  merchantId: true,
+  merchantName: true,
+  customRoleId: true,
+  createdAt: true,
+  updatedAt: true,
+  customRole: { select: { id: true, name: true } },
+  permissionOverrides: { select: { permission: true, granted: true } },
+} satisfies Prisma.UserSelect
+
+// Query parameters schema
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().trim().min(1).optional(),
+  role: z.nativeEnum(UserRole).optional(),
+  kycStatus: z.nativeEnum(KycStatus).optional(),
+  region: z.string().optional(),
+})
+
+// Request body schema - null clears a field
+const updateSchema = z
+  .object({
+    userId: z.string().min(1),
+    role: z.nativeEnum(UserRole).optional(),
+    kycStatus: z.nativeEnum(KycStatus).optional(),
+    region: z.string().trim().min(1).nullable().optional(),
+    merchantId: z.string().trim().min(1).nullable().optional(),
+    merchantName: z.string().trim().min(1).nullable().optional(),
+    customRoleId: z.string().min(1).nullable().optional(),
+    // Per-user overrides: true grants, false revokes, null falls back to the role
+    permissions: z.partialRecord(z.enum(PERMISSIONS), z.boolean().nullable()).optional(),
+  })
+  .refine(
+    (data) =>
+      Object.entries(data).some(([key, value]) => key !== 'userId' && value !== undefined),
+    'At least one field must be updated'
+  )
+
+/**
+ * GET /api/admin/users - Search and list users
+ * Query: ?search=0xabc&role=MERCHANT&kycStatus=PENDING&region=NG&page=1&limit=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('manageUsers')
+
+    const searchParams = request.nextUrl.searchParams
+    const params = querySchema.parse({
+      page: searchParams.get('page') || '1',
+      limit: searchParams.get('limit') || '20',
+      search: searchParams.get('search') || undefined,
+      role: searchParams.get('role') || undefined,
+      kycStatus: searchParams.get('kycStatus') || undefined,
+      region: searchParams.get('region') || undefined,
+    })
+
+    const where: Prisma.UserWhereInput = {}
+    if (params.role) where.role = params.role
+    if (params.kycStatus) where.kycStatus = params.kycStatus
+    if (params.region) where.region = params.region
+    if (params.search) {
+      where.OR = [
+        { walletAddress: { contains: params.search.toLowerCase() } },
+        { email: { contains: params.search, mode: 'insensitive' } },
+        { merchantId: { contains: params.search, mode: 'insensitive' } },
+        { merchantName: { contains: params.search, mode: 'insensitive' } },
+      ]
+    }
+
+    const total = await prisma.user.count({ where })
+
+    const users = await prisma.user.findMany({
+      where,
+      select: userSelect,
+      orderBy: { createdAt: 'desc' },
+      skip: (params.page - 1) * params.limit,
+      take: params.limit,
+    })
+
+    return successResponse({
+      users,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        pages: Math.ceil(total / params.limit),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * PATCH /api/admin/users - Update a user's role, permissions, KYC status, region or merchant
+ * Body: { userId, role?, customRoleId?, permissions?, kycStatus?, region?, merchantId?, merchantName? }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const admin = await requirePermission('manageUsers')
+
+    const body = await request.json()
+    const { userId, permissions, ...update } = updateSchema.parse(body)
+
+    // Admins can't demote themselves and lock everyone out
+    const changesOwnAccess =
+      (update.role && update.role !== admin.role) ||
+      (update.customRoleId !== undefined && update.customRoleId !== admin.customRoleId) ||
+      permissions !== undefined
+    if (userId === admin.id && changesOwnAccess) {
+      return errorResponse('You cannot change your own role or permissions', 400)
+    }
+
+    if (update.customRoleId) {
+      const role = await prisma.role.findUnique({ where: { id: update.customRoleId } })
+      if (!role) {
+        return errorResponse('Role not found', 404)
+      }
+    }
+
+    const user = await prisma.$transaction(async (tx) => {
+      const existing = await tx.user.findUnique({ where: { id: userId }, select: userSelect })
+      if (!existing) {
+        return null
+      }
+
+      const changes: AuditChanges = {
+        ...diffChanges(existing, update),
+        ...(permissions ? await applyPermissionOverrides(tx, existing, permissions) : {}),
+      }
+      if (Object.keys(changes).length === 0) {
+        return existing
+      }
+
+      const updated = await tx.user.update({
+        where: { id: userId },
+        data: update,
+        select: userSelect,
+      })
+
+      await recordAudit(
+        {
+          actor: admin,
+          action: 'user.update',
+          entityType: 'User',
+          entityId: userId,
+          changes,
+          request,
+        },
+        tx
+      )
+
+      return updated
+    })
+
+    if (!user) {
+      return errorResponse('User not found', 404)
+    }
+
+    return successResponse(user)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * Upsert or clear a user's permission overrides
+ * Returns the audit changes, keyed as "permissions.<key>"
+ */
+async function applyPermissionOverrides(
+  tx: Prisma.TransactionClient,
+  user: { id: string; permissionOverrides: { permission: string; granted: boolean }[] },
+  overrides: Partial<Record<Permission, boolean | null>>
+): Promise<AuditChanges> {
+  const changes: AuditChanges = {}
+
+  for (const [permission, granted] of Object.entries(overrides)) {
+    if (granted === undefined) continue
+
+    const current =
+      user.permissionOverrides.find((override) => override.permission === permission)?.granted ??
+      null
+    if (current === granted) continue
+
+    if (granted === null) {
+      await tx.userPermissionOverride.delete({
+        where: { userId_permission: { userId: user.id, permission } },
+      })
+    } else {
+      await tx.userPermissionOverride.upsert({
+        where: { userId_permission: { userId: user.id, permission } },
+        update: { granted },
+        create: { userId: user.id, permission, granted },
+      })
+    }
+
+    changes[`permissions.${permission}`] = { from: current, to: granted }
+  }
+
+  return changes
+}
@@ -0,0 +1,67 @@
+// Admin Webhook Replay API
+// Replays a single inbox event or every event in a time range
+
+import { NextRequest } from 'next/server'
+import { successResponse, handleApiError } from '@/lib/api/utils'
+import { requireAdmin } from '@/lib/auth/guard'
+import { recordAudit } from '@/lib/audit'
+import { replayWebhookEvent, replayWebhookEvents } from '@/lib/webhooks/inbox'
+import { z } from 'zod'
+import { WebhookEventStatus } from '@prisma/client'
+
+// Request body schema - either a single event ID or a time range
+const replaySchema = z.union([
+  z.object({
+    id: z.string().min(1),
+  }),
+  z
+    .object({
+      from: z.coerce.date(),
+      to: z.coerce.date(),
+      statuses: z.array(z.nativeEnum(WebhookEventStatus)).optional(),
+    })
+    .refine((range) => range.from <= range.to, 'from must be before to'),
+])
+
+/**
+ * POST /api/admin/webhooks/replay
+ * Body: { id } to replay one event now, or { from, to, statuses? } to queue a range
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+
+    const body = await request.json()
+    const data = replaySchema.parse(body)
+
+    if ('id' in data) {
+      const outcome = await replayWebhookEvent(data.id)
+
+      await recordAudit({
+        actor: admin,
+        action: 'webhook.replay',
+        entityType: 'WebhookEvent',
+        entityId: data.id,
+        metadata: { status: outcome.status, processed: outcome.processed, failed: outcome.failed },
+        request,
+      })
+
+      return successResponse(outcome)
+    }
+
+    const queued = await replayWebhookEvents(data)
+
+    await recordAudit({
+      actor: admin,
+      action: 'webhook.replay_range',
+      entityType: 'WebhookEvent',
+      entityId: `${data.from.toISOString()}..${data.to.toISOString()}`,
+      metadata: { statuses: data.statuses ?? null, queued },
+      request,
+    })
+
+    return successResponse({ queued }, 202)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,95 @@
+// Admin Webhook Inbox API
+// Lists stored webhook events and runs the retry worker
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { successResponse, handleApiError } from '@/lib/api/utils'
+import { requireAdmin } from '@/lib/auth/guard'
+import { processPendingWebhookEvents } from '@/lib/webhooks/inbox'
+import { z } from 'zod'
+import { WebhookEventStatus } from '@prisma/client'
+
+// Query parameters schema
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.nativeEnum(WebhookEventStatus).optional(),
+})
+
+/**
+ * GET /api/admin/webhooks - List inbox events
+ * Query: ?status=DEAD_LETTER&page=1&limit=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const searchParams = request.nextUrl.searchParams
+    const params = querySchema.parse({
+      page: searchParams.get('page') || '1',
+      limit: searchParams.get('limit') || '20',
+      status: searchParams.get('status') || undefined,
+    })
+
+    const where = params.status ? { status: params.status } : {}
+    const total = await prisma.webhookEvent.count({ where })
+
+    const events = await prisma.webhookEvent.findMany({
+      where,
+      select: {
+        id: true,
+        provider: true,
+        webhookId: true,
+        eventId: true,
+        eventType: true,
+        signatureValid: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        nextAttemptAt: true,
+        processedAt: true,
+        receivedAt: true,
+      },
+      orderBy: { receivedAt: 'desc' },
+      skip: (params.page - 1) * params.limit,
+      take: params.limit,
+    })
+
+    return successResponse({
+      events,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        pages: Math.ceil(total / params.limit),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/admin/webhooks - Process due inbox events (intended for a cron job)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request)
+
+    const outcomes = await processPendingWebhookEvents()
+
+    return successResponse({
+      handled: outcomes.length,
+      events: outcomes.map((outcome) => ({
+        inboxId: outcome.inboxId,
+        status: outcome.status,
+        attempts: outcome.attempts,
+        processed: outcome.processed,
+        failed: outcome.failed,
+        error: outcome.error,
+      })),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -2,160 +2,84 @@
 // Returns dashboard summary data
 
 import { NextRequest } from 'next/server'
-import { prisma } from '@/lib/prisma'
-import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { successResponse, handleApiError } from '@/lib/api/utils'
 import { z } from 'zod'
+import { requirePermission, getTransactionScope } from '@/lib/auth/guard'
+import { enforceIpRateLimit, enforceUserRateLimit } from '@/lib/rateLimit'
+import { getDashboardOverview, isValidTimeZone } from '@/lib/analytics/overview'
+
+// Longest range that may be bucketed by the hour
+const MAX_HOURLY_DAYS = 31
+
+// previous, previous_year or an ISO 8601 interval ("2025-01-01T00:00:00Z/2025-02-01T00:00:00Z")
+const compareToSchema = z.union([
+  z.enum(['previous', 'previous_year']),
+  z.string().transform((value, ctx) => {
+    const [start, end] = value.split('/')
+    const startDate = new Date(start)
+    const endDate = new Date(end)
+
+    if (!end || isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate >= endDate) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'compareTo must be previous, previous_year or an ISO range start/end',
+      })
+      return z.NEVER
+    }
+    return { startDate, endDate }
+  }),
+])
 
 // Query parameters schema
-const querySchema = z.object({
-  daysBack: z.coerce.number().min(1).max(365).default(30),
-  granularity: z.enum(['hourly', 'daily', 'weekly', 'monthly']).default('daily'),
-})
-
+const querySchema = z
+  .object({
+    daysBack: z.coerce.number().min(1).max(365).default(30),
+    granularity: z.enum(['hourly', 'daily', 'weekly', 'monthly']).default('daily'),
+    tz: z.string().refine(isValidTimeZone, 'Unknown time zone').default('UTC'),
+    compareTo: compareToSchema.default('previous'),
+  })
+  .refine(
+    ({ daysBack, granularity }) => granularity !== 'hourly' || daysBack <= MAX_HOURLY_DAYS,
+    { message: `Hourly granularity supports up to ${MAX_HOURLY_DAYS} days`, path: ['granularity'] }
+  )
+
+/**
+ * GET /api/analytics/overview - Summary, network and token stats and the metrics time series
+ * Query: ?daysBack=30&granularity=daily&tz=Africa/Lagos&compareTo=previous_year
+ * Buckets are hours, days, ISO weeks or months in the tz time zone (default UTC)
+ * Summary KPIs are compared with the preceding window of the same length unless compareTo is given
+ */
 export async function GET(request: NextRequest) {
   try {
+    await enforceIpRateLimit('analytics', request)
+    const user = await requirePermission('viewAnalytics', 'analytics:read')
+    await enforceUserRateLimit('analytics', user)
+
+    // Analytics cover the transactions the user (or merchant API key) may see
+    const scope = await getTransactionScope(user)
+
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams
     const params = querySchema.parse({
       daysBack: searchParams.get('daysBack') || '30',
       granularity: searchParams.get('granularity') || 'daily',
+      tz: searchParams.get('tz') || undefined,
+      compareTo: searchParams.get('compareTo') || undefined,
     })
 
     // Calculate date range
     const endDate = new Date()
     const startDate = new Date(endDate.getTime() - params.daysBack * 24 * 60 * 60 * 1000)
 
-    // Fetch transactions in date range
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        timestamp: {
-          gte: startDate,
-          lte: endDate,
-        },
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            walletAddress: true,
-            role: true,
-          },
-        },
-      },
-      orderBy: {
-        timestamp: 'desc',
-      },
-    })
-
-    // Calculate summary metrics
-    const totalTransactions = transactions.length
-    const completedTransactions = transactions.filter(tx => tx.status === 'COMPLETED')
-    const successRate = totalTransactions > 0
-      ? (completedTransactions.length / totalTransactions) * 100
-      : 0
-
-    const totalVolumeUSD = transactions.reduce((sum, tx) => {
-      return sum + (tx.toFiatAmount ? Number(tx.toFiatAmount) : 0)
-    }, 0)
-
-    // Get unique active users
-    const activeUsers = new Set(transactions.map(tx => tx.userId)).size
-
-    // Group by network
-    const networkStats = transactions.reduce((acc, tx) => {
-      if (!acc[tx.network]) {
-        acc[tx.network] = {
-          network: tx.network,
-          transactionCount: 0,
-          totalVolumeUSD: 0,
-          uniqueUsers: new Set(),
-          avgGasFeeUSD: [],
-        }
-      }
-      acc[tx.network].transactionCount++
-      acc[tx.network].totalVolumeUSD += tx.toFiatAmount ? Number(tx.toFiatAmount) : 0
-      acc[tx.network].uniqueUsers.add(tx.userId)
-      acc[tx.network].avgGasFeeUSD.push(Number(tx.gasFeeUSD))
-      return acc
-    }, {} as Record<string, any>)
-
-    const networkStatsArray = Object.values(networkStats).map((stat: any) => ({
-      network: stat.network,
-      transactionCount: stat.transactionCount,
-      totalVolumeUSD: stat.totalVolumeUSD,
-      uniqueUsers: stat.uniqueUsers.size,
-      avgGasFeeUSD: stat.avgGasFeeUSD.reduce((a: number, b: number) => a + b, 0) / stat.avgGasFeeUSD.length,
-    }))
-
-    // Group by token
-    const tokenStats = transactions.reduce((acc, tx) => {
-      const symbol = tx.fromTokenSymbol
-      if (!acc[symbol]) {
-        acc[symbol] = {
-          symbol,
-          transactionCount: 0,
-          totalVolumeUSD: 0,
-          totalAmount: 0,
-        }
-      }
-      acc[symbol].transactionCount++
-      acc[symbol].totalVolumeUSD += tx.toFiatAmount ? Number(tx.toFiatAmount) : 0
-      return acc
-    }, {} as Record<string, any>)
-
-    const tokenStatsArray = Object.values(tokenStats).map((stat: any) => ({
-      symbol: stat.symbol,
-      transactionCount: stat.transactionCount,
-      totalVolumeUSD: stat.totalVolumeUSD,
-      avgTransactionSize: stat.transactionCount > 0 ? stat.totalVolumeUSD / stat.transactionCount : 0,
-    }))
-
-    // Build metrics array (simplified - group by day for now)
-    const metricsMap = new Map()
-    transactions.forEach(tx => {
-      const dayKey = tx.timestamp.toISOString().split('T')[0]
-      if (!metricsMap.has(dayKey)) {
-        metricsMap.set(dayKey, {
-          periodStart: new Date(dayKey),
-          periodEnd: new Date(dayKey),
-          totalTransactions: 0,
-          activeUsers: new Set(),
-          totalVolume: {},
-          successRate: { successful: 0, total: 0 },
-          networkDistribution: {},
-        })
-      }
-      const metric = metricsMap.get(dayKey)
-      metric.totalTransactions++
-      metric.activeUsers.add(tx.userId)
-      metric.successRate.total++
-      if (tx.status === 'COMPLETED') metric.successRate.successful++
-    })
-
-    const metrics = Array.from(metricsMap.values()).map(m => ({
-      ...m,
-      activeUsers: m.activeUsers.size,
-      successRate: m.successRate.total > 0 ? (m.successRate.successful / m.successRate.total) * 100 : 0,
-    }))
-
-    // Response
-    return successResponse({
-      summary: {
-        totalTransactions,
-        totalVolumeUSD,
-        activeUsers,
-        successRate,
-        growthRate: 0, // TODO: Calculate from previous period
-        volumeGrowth: 0,
-        userGrowth: 0,
-      },
-      metrics,
-      networkStats: networkStatsArray,
-      tokenStats: tokenStatsArray,
-      transactions: transactions.slice(0, 100), // Latest 100 transactions
-      networkDistribution: {}, // TODO: Implement if needed
-    })
+    // Aggregated in the database - only grouped rows are loaded
+    const overview = await getDashboardOverview(
+      scope,
+      { startDate, endDate },
+      { granularity: params.granularity, timeZone: params.tz },
+      params.compareTo
+    )
 
+    return successResponse(overview)
   } catch (error) {
     return handleApiError(error)
   }
@@ -0,0 +1,164 @@
+// Merchant API Keys API
+// Create, list and revoke API keys for server-to-server access
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ApiError, successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { requireUser } from '@/lib/auth/guard'
+import { generateApiKey, API_KEY_SCOPES } from '@/lib/auth/apiKeys'
+import { recordAudit } from '@/lib/audit'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+
+// Fields returned for each key - never the hash
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  user: { select: { walletAddress: true } },
+} satisfies Prisma.ApiKeySelect
+
+// Request body schema
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+})
+
+/**
+ * Require a signed-in user who belongs to a merchant
+ * Keys are managed from a session only - an API key can't create more keys
+ */
+async function requireMerchantUser() {
+  const user = await requireUser()
+  if (!user.merchantId) {
+    throw new ApiError('API keys are only available to merchant accounts', 403)
+  }
+  return { user, merchantId: user.merchantId }
+}
+
+/**
+ * GET /api/api-keys - List the merchant's API keys, newest first
+ */
+export async function GET() {
+  try {
+    const { merchantId } = await requireMerchantUser()
+
+    const keys = await prisma.apiKey.findMany({
+      where: { merchantId },
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return successResponse({ keys, scopes: API_KEY_SCOPES })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/api-keys - Create an API key
+ * Body: { name, scopes, expiresInDays? }
+ * The key is only returned in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, merchantId } = await requireMerchantUser()
+
+    const body = await request.json()
+    const data = createSchema.parse(body)
+
+    const { key, prefix, keyHash } = generateApiKey()
+    const expiresAt = data.expiresInDays
+      ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+      : null
+
+    const apiKey = await prisma.$transaction(async (tx) => {
+      const created = await tx.apiKey.create({
+        data: {
+          userId: user.id,
+          merchantId,
+          name: data.name,
+          prefix,
+          keyHash,
+          scopes: data.scopes,
+          expiresAt,
+        },
+        select: apiKeySelect,
+      })
+
+      await recordAudit(
+        {
+          actor: user,
+          action: 'api_key.create',
+          entityType: 'ApiKey',
+          entityId: created.id,
+          metadata: { merchantId, name: data.name, scopes: data.scopes, expiresAt },
+          request,
+        },
+        tx
+      )
+
+      return created
+    })
+
+    return successResponse({ ...apiKey, key }, 201)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/api-keys?id=... - Revoke an API key
+ * Revoked keys stay listed for reference but are rejected immediately
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, merchantId } = await requireMerchantUser()
+
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return errorResponse('id is required', 400)
+    }
+
+    const existing = await prisma.apiKey.findFirst({ where: { id, merchantId } })
+    if (!existing) {
+      return errorResponse('API key not found', 404)
+    }
+
+    if (existing.revokedAt) {
+      return errorResponse('API key is already revoked', 400)
+    }
+
+    const apiKey = await prisma.$transaction(async (tx) => {
+      const revoked = await tx.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+        select: apiKeySelect,
+      })
+
+      await recordAudit(
+        {
+          actor: user,
+          action: 'api_key.revoke',
+          entityType: 'ApiKey',
+          entityId: id,
+          metadata: { merchantId, name: existing.name, prefix: existing.prefix },
+          request,
+        },
+        tx
+      )
+
+      return revoked
+    })
+
+    return successResponse(apiKey)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
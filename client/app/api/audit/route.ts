@@ -0,0 +1,130 @@
+// Audit Log API
+// Search the audit log and export it as CSV (admins only)
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { successResponse, csvResponse, handleApiError } from '@/lib/api/utils'
+import { requireAdmin } from '@/lib/auth/guard'
+import { recordAudit } from '@/lib/audit'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+
+// Rows in a single CSV export
+const MAX_EXPORT_ROWS = 10000
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'action',
+  'entityType',
+  'entityId',
+  'actorId',
+  'actorAddress',
+  'changes',
+  'metadata',
+  'ipAddress',
+  'userAgent',
+]
+
+// Query parameters schema
+const querySchema = z
+  .object({
+    page: z.coerce.number().min(1).default(1),
+    limit: z.coerce.number().min(1).max(100).default(50),
+    actorId: z.string().optional(),
+    actorAddress: z.string().optional(),
+    action: z.string().optional(),
+    entityType: z.string().optional(),
+    entityId: z.string().optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .refine(
+    ({ startDate, endDate }) => !startDate || !endDate || startDate <= endDate,
+    'startDate must be before endDate'
+  )
+
+/**
+ * GET /api/audit - Search audit records, newest first
+ * Query: ?action=user.update&entityType=User&entityId=...&actorAddress=0x...&startDate=...&endDate=...
+ * Add format=csv to download every matching record (up to 10,000) instead of a page
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request)
+
+    const searchParams = request.nextUrl.searchParams
+    const params = querySchema.parse({
+      page: searchParams.get('page') || '1',
+      limit: searchParams.get('limit') || '50',
+      actorId: searchParams.get('actorId') || undefined,
+      actorAddress: searchParams.get('actorAddress') || undefined,
+      action: searchParams.get('action') || undefined,
+      entityType: searchParams.get('entityType') || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      format: searchParams.get('format') || undefined,
+    })
+
+    const where: Prisma.AuditLogWhereInput = {
+      actorId: params.actorId,
+      actorAddress: params.actorAddress?.toLowerCase(),
+      action: params.action,
+      entityType: params.entityType,
+      entityId: params.entityId,
+    }
+
+    if (params.startDate || params.endDate) {
+      where.createdAt = {
+        gte: params.startDate,
+        lte: params.endDate,
+      }
+    }
+
+    if (params.format === 'csv') {
+      const records = await prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: MAX_EXPORT_ROWS,
+      })
+
+      // Exports are privileged reads, so they are audited too
+      await recordAudit({
+        actor: admin,
+        action: 'audit.export',
+        entityType: 'AuditLog',
+        entityId: 'export',
+        metadata: {
+          filters: Object.fromEntries(searchParams.entries()),
+          rows: records.length,
+        },
+        request,
+      })
+
+      const date = new Date().toISOString().split('T')[0]
+      return csvResponse(`audit-log-${date}.csv`, CSV_COLUMNS, records)
+    }
+
+    const total = await prisma.auditLog.count({ where })
+
+    const records = await prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (params.page - 1) * params.limit,
+      take: params.limit,
+    })
+
+    return successResponse({
+      records,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        pages: Math.ceil(total / params.limit),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,6 @@
+// NextAuth Route Handler
+// Session, sign-in and sign-out endpoints
+
+import { handlers } from '@/lib/auth'
+
+export const { GET, POST } = handlers
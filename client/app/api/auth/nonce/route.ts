@@ -0,0 +1,20 @@
+// SIWE Nonce API
+// Issues single-use nonces for Sign-In with Ethereum messages
+
+import { NextRequest } from 'next/server'
+import { successResponse, handleApiError } from '@/lib/api/utils'
+import { createSiweNonce } from '@/lib/auth/siwe'
+import { enforceIpRateLimit } from '@/lib/rateLimit'
+
+/**
+ * GET /api/auth/nonce - Get a nonce to include in a SIWE message
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await enforceIpRateLimit('nonce', request)
+    const { nonce, expiresAt } = await createSiweNonce()
+    return successResponse({ nonce, expiresAt })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,49 @@
+// Report Exports API
+// Records report downloads in the audit log before the file is generated
+
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { requirePermission } from '@/lib/auth/guard'
+import { userHasPermission } from '@/lib/auth/permissions'
+import { recordAudit } from '@/lib/audit'
+import { REPORT_FORMATS, REPORT_PERMISSIONS, REPORT_TYPES } from '@/lib/analytics/reports'
+import { z } from 'zod'
+
+// Request body schema
+const exportSchema = z.object({
+  reportType: z.enum(REPORT_TYPES),
+  format: z.enum(REPORT_FORMATS),
+  daysBack: z.number().int().min(1).max(365),
+})
+
+/**
+ * POST /api/reports/exports - Record a report export
+ * Body: { reportType, format, daysBack }
+ * The dashboard calls this before building the file and only downloads once it succeeds
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission('exportReports')
+
+    const body = await request.json()
+    const data = exportSchema.parse(body)
+
+    const reportPermission = REPORT_PERMISSIONS[data.reportType]
+    if (reportPermission && !(await userHasPermission(user, reportPermission))) {
+      return errorResponse(`Missing permission: ${reportPermission}`, 403)
+    }
+
+    const audit = await recordAudit({
+      actor: user,
+      action: 'report.export',
+      entityType: 'Report',
+      entityId: data.reportType,
+      metadata: data,
+      request,
+    })
+
+    return successResponse({ exportId: audit.id }, 201)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
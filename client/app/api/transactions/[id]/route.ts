@@ -0,0 +1,137 @@
+// Transaction Detail API
+// Returns a single transaction with amounts, fees and its status timeline; operators can change its status
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
+import { requireUser, requirePermission, getTransactionScope } from '@/lib/auth/guard'
+import { enforceIpRateLimit, enforceUserRateLimit } from '@/lib/rateLimit'
+import {
+  serializeTransaction,
+  getTransactionAmounts,
+  getTransactionTimeline,
+} from '@/lib/blockchain/transactions'
+import { updateTransactionStatus } from '@/lib/blockchain/processor'
+import { InvalidStatusTransitionError } from '@/lib/blockchain/status'
+import { getBlockExplorerUrl, getNetworkName } from '@/lib/utils/formatting'
+import { z } from 'zod'
+import { Prisma, TransactionStatus, TransactionStatusSource, type User } from '@prisma/client'
+
+const TX_HASH_PATTERN = /^0x[a-fA-F0-9]{64}$/
+
+const include = {
+  user: {
+    select: {
+      id: true,
+      walletAddress: true,
+      email: true,
+      role: true,
+    },
+  },
+} satisfies Prisma.TransactionInclude
+
+// Request body schema for status changes
+const updateSchema = z.object({
+  status: z.nativeEnum(TransactionStatus),
+  reason: z.string().trim().min(3).max(500),
+})
+
+/**
+ * Find a transaction by ID or hash among those the user may see
+ */
+async function findTransaction(id: string, user: User) {
+  const lookup = TX_HASH_PATTERN.test(id)
+    ? { txHash: { equals: id, mode: 'insensitive' as const } }
+    : { id }
+
+  return await prisma.transaction.findFirst({
+    where: { AND: [await getTransactionScope(user), lookup] },
+    include,
+  })
+}
+
+/**
+ * Response body: the transaction with amounts, links and status timeline
+ */
+async function toDetail(transaction: Prisma.TransactionGetPayload<{ include: typeof include }>) {
+  return {
+    ...serializeTransaction(transaction),
+    ...getTransactionAmounts(transaction),
+    networkName: getNetworkName(transaction.network),
+    explorerUrl: getBlockExplorerUrl(transaction.network, transaction.txHash),
+    timeline: await getTransactionTimeline(transaction),
+  }
+}
+
+/**
+ * GET /api/transactions/:id - Transaction by ID or transaction hash
+ * Returns 404 for transactions the user may not see, the same as for missing ones
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await enforceIpRateLimit('transactions', request)
+    const user = await requireUser('transactions:read')
+    await enforceUserRateLimit('transactions', user)
+
+    const { id } = await params
+    const transaction = await findTransaction(id, user)
+
+    if (!transaction) {
+      return errorResponse('Transaction not found', 404)
+    }
+
+    return successResponse(await toDetail(transaction))
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * PATCH /api/transactions/:id - Change a transaction's status (requires manageTransactions)
+ * Body: { status, reason }
+ * Only changes allowed by the status machine are accepted (409 otherwise)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await enforceIpRateLimit('transactions', request)
+    const operator = await requirePermission('manageTransactions')
+    await enforceUserRateLimit('transactions', operator)
+
+    const { id } = await params
+    const data = updateSchema.parse(await request.json())
+
+    const transaction = await findTransaction(id, operator)
+    if (!transaction) {
+      return errorResponse('Transaction not found', 404)
+    }
+
+    if (transaction.status === data.status) {
+      return errorResponse(`Transaction is already ${data.status}`, 409)
+    }
+
+    try {
+      await updateTransactionStatus(transaction.txHash, data.status, {
+        source: TransactionStatusSource.OPERATOR,
+        actor: operator,
+        reason: data.reason,
+        request,
+      })
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return errorResponse(error.message, 409)
+      }
+      throw error
+    }
+
+    const updated = await findTransaction(transaction.id, operator)
+    return successResponse(await toDetail(updated ?? transaction))
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -1,80 +1,219 @@
 // Transactions List API
-// Returns paginated transaction history with filtering
+// Returns transaction history with keyset pagination and filtering
 
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { successResponse, handleApiError } from '@/lib/api/utils'
+import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
 import { z } from 'zod'
-import { TransactionType, TransactionStatus } from '@prisma/client'
+import { Prisma } from '@prisma/client'
+import { requireUser, getTransactionScope } from '@/lib/auth/guard'
+import { enforceIpRateLimit, enforceUserRateLimit } from '@/lib/rateLimit'
+import { serializeTransaction } from '@/lib/blockchain/transactions'
+import {
+  filterConfigSchema,
+  buildTransactionWhere,
+  buildTransactionSearch,
+} from '@/lib/analytics/filters'
 
-// Query parameters schema
+// Query parameters schema; list filters take comma-separated values
 const querySchema = z.object({
-  page: z.coerce.number().min(1).default(1),
+  cursor: z.string().optional(),
+  page: z.coerce.number().min(1).optional(), // Offset pagination, kept for older clients
   limit: z.coerce.number().min(1).max(100).default(20),
-  type: z.nativeEnum(TransactionType).optional(),
-  status: z.nativeEnum(TransactionStatus).optional(),
-  network: z.string().optional(),
   userId: z.string().optional(),
+  fiatCurrencies: z.array(z.string()).optional(),
+  search: z.string().trim().min(3).max(100).optional(),
+  filters: z.string().optional(), // JSON-encoded FilterConfig
 })
 
+// Position after the last row of a page, ordered by (timestamp, id) descending
+const cursorSchema = z.object({
+  timestamp: z.coerce.date(),
+  id: z.string(),
+})
+
+type TransactionCursor = z.infer<typeof cursorSchema>
+
+/**
+ * Split a comma-separated query parameter; repeated parameters are combined
+ */
+function getList(searchParams: URLSearchParams, name: string): string[] | undefined {
+  const values = searchParams
+    .getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean)
+  return values.length > 0 ? values : undefined
+}
+
+function getNumber(searchParams: URLSearchParams, name: string): number | undefined {
+  const value = searchParams.get(name)
+  return value ? Number(value) : undefined
+}
+
+function encodeCursor(cursor: TransactionCursor): string {
+  return Buffer.from(
+    JSON.stringify({ timestamp: cursor.timestamp.toISOString(), id: cursor.id })
+  ).toString('base64url')
+}
+
+function decodeCursor(cursor: string): TransactionCursor | null {
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString()))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * GET /api/transactions - Transactions visible to the signed-in user
+ * Users see their own, merchants their merchant's and staff all transactions
+ * Also accepts merchant API keys with the transactions:read scope
+ *
+ * Query: ?limit=20&cursor=...&type=PAYMENT,REFUND&status=COMPLETED&network=base&token=USDC
+ *   &startDate=...&endDate=...&minAmount=10&maxAmount=500&fiatCurrency=NGN&merchantId=...
+ *   &search=0xabc&filters=<JSON FilterConfig>
+ * Pass the returned nextCursor to fetch the next page
+ */
 export async function GET(request: NextRequest) {
   try {
+    await enforceIpRateLimit('transactions', request)
+    const user = await requireUser('transactions:read')
+    await enforceUserRateLimit('transactions', user)
+
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams
     const params = querySchema.parse({
-      page: searchParams.get('page') || '1',
+      cursor: searchParams.get('cursor') || undefined,
+      page: searchParams.get('page') || undefined,
       limit: searchParams.get('limit') || '20',
-      type: searchParams.get('type') || undefined,
-      status: searchParams.get('status') || undefined,
-      network: searchParams.get('network') || undefined,
       userId: searchParams.get('userId') || undefined,
+      fiatCurrencies: getList(searchParams, 'fiatCurrency'),
+      search: searchParams.get('search') || undefined,
+      filters: searchParams.get('filters') || undefined,
+    })
+
+    // Individual parameters are the same filters in flat form
+    const flatFilters = filterConfigSchema.parse({
+      dateRange: {
+        startDate: searchParams.get('startDate') || undefined,
+        endDate: searchParams.get('endDate') || undefined,
+      },
+      transaction: {
+        types: getList(searchParams, 'type'),
+        statuses: getList(searchParams, 'status'),
+        networks: getList(searchParams, 'network'),
+        tokens: getList(searchParams, 'token'),
+        amountRange: {
+          min: getNumber(searchParams, 'minAmount'),
+          max: getNumber(searchParams, 'maxAmount'),
+        },
+      },
+      merchant: { ids: getList(searchParams, 'merchantId') },
     })
 
-    // Build where clause
-    const where: any = {}
-    if (params.type) where.type = params.type
-    if (params.status) where.status = params.status
-    if (params.network) where.network = params.network
-    if (params.userId) where.userId = params.userId
+    let configFilters
+    if (params.filters) {
+      try {
+        configFilters = filterConfigSchema.parse(JSON.parse(params.filters))
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          return errorResponse('filters must be valid JSON', 400)
+        }
+        throw error
+      }
+    }
 
-    // Get total count
-    const total = await prisma.transaction.count({ where })
+    // Build where clause, always restricted to what the user may see
+    const conditions: Prisma.TransactionWhereInput[] = [
+      await getTransactionScope(user),
+      ...buildTransactionWhere(flatFilters),
+      ...(configFilters ? buildTransactionWhere(configFilters) : []),
+    ]
+    if (params.userId) conditions.push({ userId: params.userId })
+    if (params.fiatCurrencies) {
+      conditions.push({
+        toFiatCurrency: { in: params.fiatCurrencies.map((currency) => currency.toUpperCase()) },
+      })
+    }
+    if (params.search) conditions.push(buildTransactionSearch(params.search))
 
-    // Calculate pagination
-    const skip = (params.page - 1) * params.limit
-    const pages = Math.ceil(total / params.limit)
+    const where: Prisma.TransactionWhereInput = { AND: conditions }
 
-    // Fetch transactions
-    const transactions = await prisma.transaction.findMany({
-      where,
-      include: {
-        user: {
-          select: {
-            id: true,
-            walletAddress: true,
-            email: true,
-            role: true,
-          },
+    const include = {
+      user: {
+        select: {
+          id: true,
+          walletAddress: true,
+          email: true,
+          role: true,
         },
       },
-      orderBy: {
-        timestamp: 'desc',
-      },
-      skip,
-      take: params.limit,
+    } satisfies Prisma.TransactionInclude
+
+    const orderBy: Prisma.TransactionOrderByWithRelationInput[] = [
+      { timestamp: 'desc' },
+      { id: 'desc' },
+    ]
+
+    // Offset pagination (slow on deep pages)
+    if (params.page) {
+      const total = await prisma.transaction.count({ where })
+
+      const transactions = await prisma.transaction.findMany({
+        where,
+        include,
+        orderBy,
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+      })
+
+      return successResponse({
+        transactions: transactions.map(serializeTransaction),
+        pagination: {
+          page: params.page,
+          limit: params.limit,
+          total,
+          pages: Math.ceil(total / params.limit),
+        },
+      })
+    }
+
+    // Keyset pagination: rows strictly after the cursor in (timestamp, id) order
+    if (params.cursor) {
+      const cursor = decodeCursor(params.cursor)
+      if (!cursor) {
+        return errorResponse('Invalid cursor', 400)
+      }
+
+      conditions.push({
+        OR: [
+          { timestamp: { lt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, id: { lt: cursor.id } },
+        ],
+      })
+    }
+
+    // One extra row tells whether there is a next page
+    const rows = await prisma.transaction.findMany({
+      where,
+      include,
+      orderBy,
+      take: params.limit + 1,
     })
 
-    // Format response
+    const hasMore = rows.length > params.limit
+    const transactions = hasMore ? rows.slice(0, params.limit) : rows
+    const last = transactions[transactions.length - 1]
+
     return successResponse({
-      transactions,
+      transactions: transactions.map(serializeTransaction),
       pagination: {
-        page: params.page,
         limit: params.limit,
-        total,
-        pages,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor(last) : null,
       },
     })
-
   } catch (error) {
     return handleApiError(error)
   }
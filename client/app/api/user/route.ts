@@ -6,6 +6,10 @@ import { prisma } from '@/lib/prisma'
 import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
 import { z } from 'zod'
 import { UserRole } from '@prisma/client'
+import { requireUser } from '@/lib/auth/guard'
+import { getUserPermissions, userHasPermission } from '@/lib/auth/permissions'
+import { recordAudit, diffChanges } from '@/lib/audit'
+import { enforceIpRateLimit, enforceUserRateLimit } from '@/lib/rateLimit'
 
 // Request body schema
 const userSchema = z.object({
@@ -17,9 +21,14 @@ const userSchema = z.object({
 /**
  * GET /api/user - Get user by wallet address
  * Query: ?address=0x...
+ * Users can read their own profile; viewAllUsers is needed for anyone else's
  */
 export async function GET(request: NextRequest) {
   try {
+    await enforceIpRateLimit('user', request)
+    const currentUser = await requireUser()
+    await enforceUserRateLimit('user', currentUser)
+
     const searchParams = request.nextUrl.searchParams
     const address = searchParams.get('address')
 
@@ -32,6 +41,13 @@ export async function GET(request: NextRequest) {
       return errorResponse('Invalid wallet address format', 400)
     }
 
+    if (
+      address.toLowerCase() !== currentUser.walletAddress &&
+      !(await userHasPermission(currentUser, 'viewAllUsers'))
+    ) {
+      return errorResponse('Forbidden', 403)
+    }
+
     // Find user by wallet address
     const user = await prisma.user.findUnique({
       where: { walletAddress: address.toLowerCase() },
@@ -46,6 +62,8 @@ export async function GET(request: NextRequest) {
         merchantId: true,
         merchantName: true,
         createdAt: true,
+        customRoleId: true,
+        customRole: { select: { id: true, name: true } },
       },
     })
 
@@ -53,7 +71,8 @@ export async function GET(request: NextRequest) {
       return errorResponse('User not found', 404)
     }
 
-    return successResponse(user)
+    // Effective permissions (role plus per-user overrides) for the dashboard
+    return successResponse({ ...user, permissions: await getUserPermissions(user) })
   } catch (error) {
     return handleApiError(error)
   }
@@ -62,25 +81,40 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/user - Create or update user
  * Body: { walletAddress, email?, socialProvider? }
+ * Users can only update their own wallet; manageUsers is needed for anyone else's
  */
 export async function POST(request: NextRequest) {
   try {
+    await enforceIpRateLimit('user', request)
+    const currentUser = await requireUser()
+    await enforceUserRateLimit('user', currentUser)
+
     const body = await request.json()
     const data = userSchema.parse(body)
 
+    if (
+      data.walletAddress.toLowerCase() !== currentUser.walletAddress &&
+      !(await userHasPermission(currentUser, 'manageUsers'))
+    ) {
+      return errorResponse('Forbidden', 403)
+    }
+
     // Check if user already exists
-    let user = await prisma.user.findUnique({
+    const user = await prisma.user.findUnique({
       where: { walletAddress: data.walletAddress.toLowerCase() },
     })
 
     if (user) {
       // Update existing user
-      user = await prisma.user.update({
+      const update = {
+        email: data.email || user.email,
+        socialProvider: data.socialProvider || user.socialProvider,
+      }
+      const changes = diffChanges(user, update)
+
+      const updated = await prisma.user.update({
         where: { id: user.id },
-        data: {
-          email: data.email || user.email,
-          socialProvider: data.socialProvider || user.socialProvider,
-        },
+        data: update,
         select: {
           id: true,
           walletAddress: true,
@@ -95,17 +129,30 @@ export async function POST(request: NextRequest) {
         },
       })
 
-      return successResponse(user)
+      if (Object.keys(changes).length > 0) {
+        await recordAudit({
+          actor: currentUser,
+          action: 'user.update',
+          entityType: 'User',
+          entityId: user.id,
+          changes,
+          request,
+        })
+      }
+
+      return successResponse(updated)
     }
 
     // Create new user with default role
-    user = await prisma.user.create({
-      data: {
-        walletAddress: data.walletAddress.toLowerCase(),
-        email: data.email,
-        socialProvider: data.socialProvider,
-        role: UserRole.USER, // Default role
-      },
+    const created = {
+      walletAddress: data.walletAddress.toLowerCase(),
+      email: data.email,
+      socialProvider: data.socialProvider,
+      role: UserRole.USER, // Default role
+    }
+
+    const newUser = await prisma.user.create({
+      data: created,
       select: {
         id: true,
         walletAddress: true,
@@ -120,7 +167,16 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    return successResponse(user, 201)
+    await recordAudit({
+      actor: currentUser,
+      action: 'user.create',
+      entityType: 'User',
+      entityId: newUser.id,
+      changes: diffChanges({}, created),
+      request,
+    })
+
+    return successResponse(newUser, 201)
   } catch (error) {
     return handleApiError(error)
   }
@@ -3,8 +3,10 @@
 
 import { NextRequest } from 'next/server'
 import { successResponse, errorResponse, handleApiError } from '@/lib/api/utils'
-import { parseAlchemyWebhook, processTransaction } from '@/lib/blockchain/processor'
-import crypto from 'crypto'
+import { recordWebhookEvent, processWebhookEvent } from '@/lib/webhooks/inbox'
+import { verifyWebhookSignature } from '@/lib/webhooks/signature'
+import { enforceIpRateLimit } from '@/lib/rateLimit'
+import { WebhookEventStatus } from '@prisma/client'
 
 /**
  * POST /api/webhooks/alchemy
@@ -12,38 +14,69 @@ import crypto from 'crypto'
  */
 export async function POST(request: NextRequest) {
   try {
+    // Throttle floods before reading or storing anything
+    await enforceIpRateLimit('webhook', request)
+
     // Get webhook body
     const body = await request.text()
-    const payload = JSON.parse(body)
 
-    // Verify webhook signature
+    let payload
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      return errorResponse('Invalid JSON payload', 400)
+    }
+
+    // Verify webhook signature; unsigned deliveries are logged and dropped, never stored
     const signature = request.headers.get('x-alchemy-signature')
-    if (!verifyWebhookSignature(body, signature)) {
-      console.error('❌ Invalid webhook signature')
+    const verification = verifyWebhookSignature(body, signature)
+    if (!verification.valid) {
+      console.error(
+        `❌ Invalid webhook signature: ${verification.reason} (webhook ${payload?.webhookId ?? 'unknown'}, event ${payload?.id ?? 'unknown'})`
+      )
       return errorResponse('Invalid signature', 401)
     }
 
-    console.log('✅ Webhook signature verified')
+    // Persist the raw delivery before processing so nothing is lost if processing fails;
+    // new events replayed outside the tolerance window are stored as REJECTED
+    const { event, duplicate } = await recordWebhookEvent({ payload })
+
+    // Already received - acknowledge without processing again
+    if (duplicate) {
+      console.log(`🔁 Duplicate webhook ${event.eventId} ignored`)
+      return successResponse({ inboxId: event.id, status: event.status, duplicate: true })
+    }
+
+    if (event.status === WebhookEventStatus.REJECTED) {
+      console.error(`❌ Webhook rejected: ${event.lastError}`)
+      return errorResponse(event.lastError ?? 'Webhook rejected', 400)
+    }
+
+    console.log(`✅ Webhook signature verified with key "${verification.keyId}"`)
     console.log('📥 Received webhook:', payload.type)
 
-    // Parse webhook payload
-    const transactionData = parseAlchemyWebhook(payload)
-    if (!transactionData) {
-      return errorResponse('Invalid webhook payload', 400)
+    // Process the event right away; failures stay in the inbox for the retry worker
+    const outcome = await processWebhookEvent(event.id)
+    if (!outcome) {
+      return successResponse({ inboxId: event.id, queued: true }, 202)
     }
 
-    // Process and store transaction
-    const transaction = await processTransaction(transactionData)
+    if (outcome.status === WebhookEventStatus.DEAD_LETTER) {
+      return errorResponse(outcome.error ?? 'Invalid webhook payload', 400)
+    }
 
-    console.log(`✅ Transaction ${transaction.txHash} processed`)
+    console.log(`✅ Processed ${outcome.processed}/${outcome.results.length} webhook activities`)
 
+    // Partial failures are accepted: the event is stored and will be retried with backoff
     return successResponse(
       {
-        processed: true,
-        txHash: transaction.txHash,
-        transactionId: transaction.id,
+        inboxId: outcome.inboxId,
+        status: outcome.status,
+        processed: outcome.processed,
+        failed: outcome.failed,
+        results: outcome.results,
       },
-      200
+      outcome.status === WebhookEventStatus.PROCESSED ? 200 : 202
     )
   } catch (error) {
     console.error('❌ Webhook processing error:', error)
@@ -62,34 +95,3 @@ export async function GET() {
     timestamp: new Date().toISOString(),
   })
 }
-
-/**
- * Verify Alchemy webhook signature
- * Ensures the webhook actually came from Alchemy
- */
-function verifyWebhookSignature(body: string, signature: string | null): boolean {
-  // Get webhook signing key from environment
-  const signingKey = process.env.ALCHEMY_WEBHOOK_SECRET
-
-  if (!signingKey) {
-    console.warn('⚠️ ALCHEMY_WEBHOOK_SECRET not set - skipping signature verification')
-    return true // Allow in development (but warn)
-  }
-
-  if (!signature) {
-    return false
-  }
-
-  try {
-    // Create HMAC signature
-    const hmac = crypto.createHmac('sha256', signingKey)
-    hmac.update(body)
-    const digest = hmac.digest('hex')
-
-    // Compare signatures (constant-time comparison to prevent timing attacks)
-    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(digest))
-  } catch (error) {
-    console.error('Error verifying signature:', error)
-    return false
-  }
-}
@@ -1,19 +1,21 @@
 // Advanced Analytics Page
 // Deep-dive analytics for Users, Conversions, and Merchants
-// Accessible by: Admin, Operations, Growth roles only
+// Accessible with the viewAnalytics permission
 
 'use client'
 
 import { useState, useMemo } from 'react'
 import { useAnalytics } from '@/hooks/useAnalytics'
 import { useRoleAccess } from '@/hooks/useRoleAccess'
-import { UserRole } from '@/types/analytics'
+import type { Permission } from '@/lib/auth/roles'
 import MetricsCard from '@/components/dashboard/MetricsCard'
 import SimpleLineChart from '@/components/dashboard/Charts/SimpleLineChart'
 import SimpleBarChart from '@/components/dashboard/Charts/SimpleBarChart'
 
 type AnalyticsTab = 'users' | 'conversions' | 'merchants'
 
+const REQUIRED_PERMISSIONS: Permission[] = ['viewAnalytics']
+
 export default function AnalyticsPage() {
   const [activeTab, setActiveTab] = useState<AnalyticsTab>('users')
   const [timeRange, setTimeRange] = useState<7 | 30 | 90>(30)
@@ -23,30 +25,7 @@ export default function AnalyticsPage() {
     daysBack: timeRange,
   })
 
-  const { hasAccess, role } = useRoleAccess([
-    UserRole.ADMIN,
-    UserRole.OPERATIONS,
-    UserRole.GROWTH,
-  ])
-
-  // Access denied for non-privileged users
-  if (!hasAccess) {
-    return (
-      <div className="flex items-center justify-center min-h-[60vh]">
-        <div className="bg-red-900/20 border border-red-700/50 rounded-xl p-8 max-w-md text-center">
-          <div className="text-4xl mb-4">🔒</div>
-          <h2 className="text-2xl font-bold text-white mb-2">Access Denied</h2>
-          <p className="text-gray-300">
-            Advanced Analytics is only available for Admin, Operations, and
-            Growth teams.
-          </p>
-          <p className="text-sm text-gray-400 mt-4">
-            Your current role: <span className="font-medium">{role}</span>
-          </p>
-        </div>
-      </div>
-    )
-  }
+  const { hasAccess, role, isLoading: roleLoading, isUnknown } = useRoleAccess(REQUIRED_PERMISSIONS)
 
   // Calculate user analytics
   const userAnalytics = useMemo(() => {
@@ -171,6 +150,49 @@ export default function AnalyticsPage() {
     }
   }, [analytics, activeTab])
 
+  // Access checks come after all hooks so the hook order stays stable while the role loads
+  // Wait for the role before deciding on access
+  if (roleLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  // Role can't be determined without a signed-in session
+  if (isUnknown) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-8 max-w-md text-center">
+          <div className="text-4xl mb-4">🔑</div>
+          <h2 className="text-2xl font-bold text-white mb-2">Sign In Required</h2>
+          <p className="text-gray-300">
+            Sign in with your wallet to load your role and access Advanced Analytics.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  // Access denied for non-privileged users
+  if (!hasAccess) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="bg-red-900/20 border border-red-700/50 rounded-xl p-8 max-w-md text-center">
+          <div className="text-4xl mb-4">🔒</div>
+          <h2 className="text-2xl font-bold text-white mb-2">Access Denied</h2>
+          <p className="text-gray-300">
+            Advanced Analytics requires the View Analytics permission.
+          </p>
+          <p className="text-sm text-gray-400 mt-4">
+            Your current role: <span className="font-medium">{role}</span>
+          </p>
+        </div>
+      </div>
+    )
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
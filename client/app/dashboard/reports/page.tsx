@@ -1,33 +1,28 @@
 // Reports Page
 // Generate and download detailed reports
-// Accessible by: Admin, Operations, Growth, Merchant roles
+// Accessible with the exportReports permission
 
 'use client'
 
 import { useState, useMemo } from 'react'
+import { toast } from 'react-toastify'
 import { useAnalytics } from '@/hooks/useAnalytics'
 import { useTransactions } from '@/hooks/useTransactions'
 import { useRoleAccess } from '@/hooks/useRoleAccess'
-import { UserRole } from '@/types/analytics'
+import { useReportExport } from '@/hooks/useReportExport'
+import type { Permission } from '@/lib/auth/roles'
+import { REPORT_PERMISSIONS, type ReportFormat, type ReportType } from '@/lib/analytics/reports'
 import {
   formatDate,
   formatCurrency,
   formatCompactNumber,
 } from '@/lib/utils/formatting'
 
-type ReportType =
-  | 'transaction_summary'
-  | 'volume_report'
-  | 'user_activity'
-  | 'merchant_report'
-  | 'network_performance'
-
 interface Report {
   id: ReportType
   name: string
   description: string
   icon: string
-  requiredRoles: UserRole[]
 }
 
 const availableReports: Report[] = [
@@ -37,12 +32,6 @@ const availableReports: Report[] = [
     description:
       'Overview of all transactions including volume, counts, and success rates',
     icon: '📊',
-    requiredRoles: [
-      UserRole.ADMIN,
-      UserRole.OPERATIONS,
-      UserRole.GROWTH,
-      UserRole.MERCHANT,
-    ],
   },
   {
     id: 'volume_report',
@@ -50,12 +39,6 @@ const availableReports: Report[] = [
     description:
       'Detailed breakdown of transaction volume by network, token, and time period',
     icon: '💰',
-    requiredRoles: [
-      UserRole.ADMIN,
-      UserRole.OPERATIONS,
-      UserRole.GROWTH,
-      UserRole.MERCHANT,
-    ],
   },
   {
     id: 'user_activity',
@@ -63,7 +46,6 @@ const availableReports: Report[] = [
     description:
       'User engagement metrics, cohort analysis, and retention statistics',
     icon: '👥',
-    requiredRoles: [UserRole.ADMIN, UserRole.OPERATIONS, UserRole.GROWTH],
   },
   {
     id: 'merchant_report',
@@ -71,7 +53,6 @@ const availableReports: Report[] = [
     description:
       'Merchant-specific metrics including transaction counts and volume',
     icon: '🏪',
-    requiredRoles: [UserRole.ADMIN, UserRole.OPERATIONS, UserRole.MERCHANT],
   },
   {
     id: 'network_performance',
@@ -79,10 +60,11 @@ const availableReports: Report[] = [
     description:
       'Gas fees, transaction times, and success rates by blockchain network',
     icon: '⛓️',
-    requiredRoles: [UserRole.ADMIN, UserRole.OPERATIONS],
   },
 ]
 
+const REQUIRED_PERMISSIONS: Permission[] = ['exportReports']
+
 export default function ReportsPage() {
   const [selectedReport, setSelectedReport] = useState<ReportType | null>(null)
   const [dateRange, setDateRange] = useState<7 | 30 | 90>(30)
@@ -96,19 +78,47 @@ export default function ReportsPage() {
   const { data: transactionsData, isLoading: transactionsLoading } =
     useTransactions({ page: 1, limit: 100 })
 
-  const { hasAccess, role } = useRoleAccess([
-    UserRole.ADMIN,
-    UserRole.OPERATIONS,
-    UserRole.GROWTH,
-    UserRole.MERCHANT,
-  ])
+  const reportExport = useReportExport()
+
+  const {
+    hasAccess,
+    role,
+    permissions,
+    isLoading: roleLoading,
+    isUnknown,
+  } = useRoleAccess(REQUIRED_PERMISSIONS)
 
-  // Filter reports based on user role
+  // Filter reports based on the user's permissions
   const accessibleReports = useMemo(() => {
-    return availableReports.filter((report) =>
-      report.requiredRoles.includes(role)
+    return availableReports.filter((report) => {
+      const permission = REPORT_PERMISSIONS[report.id]
+      return !permission || permissions[permission]
+    })
+  }, [permissions])
+
+  // Wait for the role before deciding on access
+  if (roleLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
     )
-  }, [role])
+  }
+
+  // Role can't be determined without a signed-in session
+  if (isUnknown) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-8 max-w-md text-center">
+          <div className="text-4xl mb-4">🔑</div>
+          <h2 className="text-2xl font-bold text-white mb-2">Sign In Required</h2>
+          <p className="text-gray-300">
+            Sign in with your wallet to load your role and access Reports.
+          </p>
+        </div>
+      </div>
+    )
+  }
 
   // Access denied for non-privileged users
   if (!hasAccess) {
@@ -118,8 +128,7 @@ export default function ReportsPage() {
           <div className="text-4xl mb-4">🔒</div>
           <h2 className="text-2xl font-bold text-white mb-2">Access Denied</h2>
           <p className="text-gray-300">
-            Reports are only available for Admin, Operations, Growth, and
-            Merchant roles.
+            Reports require the Export Reports permission.
           </p>
           <p className="text-sm text-gray-400 mt-4">
             Your current role: <span className="font-medium">{role}</span>
@@ -334,7 +343,17 @@ export default function ReportsPage() {
     setIsGenerating(false)
   }
 
-  const handleDownloadReport = (format: 'pdf' | 'csv' | 'excel') => {
+  const handleDownloadReport = async (format: ReportFormat) => {
+    if (!selectedReport) return
+
+    // Every export is audited; nothing is downloaded if it can't be recorded
+    try {
+      await reportExport.mutateAsync({ reportType: selectedReport, format, daysBack: dateRange })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record report export')
+      return
+    }
+
     // In production, this would trigger actual download
     alert(
       `Downloading ${selectedReport} as ${format.toUpperCase()}.\n\nThis is a demo - in production, this would generate and download the actual report file.`
@@ -461,19 +480,22 @@ export default function ReportsPage() {
             <div className="flex flex-wrap gap-3">
               <button
                 onClick={() => handleDownloadReport('pdf')}
-                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm font-medium"
+                disabled={reportExport.isPending}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
               >
                 📄 Download PDF
               </button>
               <button
                 onClick={() => handleDownloadReport('csv')}
-                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors text-sm font-medium"
+                disabled={reportExport.isPending}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
               >
                 📊 Download CSV
               </button>
               <button
                 onClick={() => handleDownloadReport('excel')}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+                disabled={reportExport.isPending}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
               >
                 📈 Download Excel
               </button>
@@ -530,7 +552,8 @@ export default function ReportsPage() {
               Reports are generated from real-time data and can be exported in
               multiple formats. In this demo, download buttons show an alert.
               In production, they would generate and download actual report
-              files (PDF, CSV, Excel).
+              files (PDF, CSV, Excel). Every download is recorded in the audit
+              log.
             </p>
           </div>
         </div>
@@ -7,11 +7,12 @@ import { useAppKitAccount } from '@reown/appkit/react'
 import { useAccount } from 'wagmi'
 import { useRoleAccess, getRoleDisplayName, getRoleBadgeColor } from '@/hooks/useRoleAccess'
 import { formatAddress } from '@/lib/utils/formatting'
+import ApiKeysSettings from '@/components/dashboard/ApiKeysSettings'
 
 export default function SettingsPage() {
   const { address: appkitAddress } = useAppKitAccount()
   const { address: wagmiAddress, chain } = useAccount()
-  const { role } = useRoleAccess()
+  const { role, profile } = useRoleAccess()
 
   const address = wagmiAddress || appkitAddress
 
@@ -82,6 +83,9 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* API Keys (merchant accounts only) */}
+      {profile?.merchantId && <ApiKeysSettings />}
+
       {/* Dashboard Preferences */}
       <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-700">
@@ -238,7 +242,7 @@ export default function SettingsPage() {
             <p className="text-sm text-gray-300">
               These settings are currently for demonstration purposes. In production,
               preferences will be saved to your account and synced across devices.
-              Your wallet address and role are determined by your connected wallet.
+              Your role is loaded from your account after you sign in with your wallet.
             </p>
           </div>
         </div>
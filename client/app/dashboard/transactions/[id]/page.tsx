@@ -0,0 +1,274 @@
+// Transaction Detail Page
+// Token and fiat amounts, fees, merchant, raw metadata and the status timeline of one transaction
+
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { useTransaction, type TransactionDetail } from '@/hooks/useTransactions'
+import {
+  formatAddress,
+  formatCurrency,
+  formatDate,
+  formatStatus,
+} from '@/lib/utils/formatting'
+
+// Stage names for each status
+const STAGE_LABELS: Record<string, string> = {
+  PENDING: 'Requested',
+  CONFIRMED: 'Processing', // On-chain, waiting for confirmations or the lifecycle to finish
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+}
+
+// What caused each recorded status change
+const SOURCE_LABELS: Record<string, string> = {
+  WEBHOOK: 'webhook',
+  BACKFILL: 'backfill',
+  CONFIRMATION_TRACKER: 'confirmation tracker',
+  CONTRACT_EVENT: 'contract event',
+  OPERATOR: 'operator',
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: 'bg-yellow-900 text-yellow-300',
+  CONFIRMED: 'bg-blue-900 text-blue-300',
+  COMPLETED: 'bg-green-900 text-green-300',
+  FAILED: 'bg-red-900 text-red-300',
+  CANCELLED: 'bg-gray-700 text-gray-300',
+}
+
+/**
+ * Expected stages, ending in the transaction's final outcome
+ */
+function getStages(transaction: TransactionDetail) {
+  const final = ['FAILED', 'CANCELLED'].includes(transaction.status)
+    ? transaction.status
+    : 'COMPLETED'
+
+  return ['PENDING', 'CONFIRMED', final].map((status) => {
+    // Latest time the transaction entered this status
+    const entry = [...transaction.timeline].reverse().find((item) => item.status === status)
+    return { status, label: STAGE_LABELS[status], at: entry?.at ?? null }
+  })
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-1 py-3 border-b border-gray-700 last:border-0">
+      <span className="text-sm text-gray-400">{label}</span>
+      <span className="text-sm text-white sm:text-right break-all">{children}</span>
+    </div>
+  )
+}
+
+export default function TransactionDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const { data: transaction, isLoading, error } = useTransaction(id)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-gray-400">Loading transaction...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !transaction) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="bg-gray-800 border border-gray-700 rounded-xl p-8 max-w-md text-center">
+          <div className="text-4xl mb-4">🔍</div>
+          <h2 className="text-2xl font-bold text-white mb-2">Transaction Not Found</h2>
+          <p className="text-gray-300 mb-4">
+            {error instanceof Error ? error.message : 'This transaction does not exist.'}
+          </p>
+          <Link
+            href="/dashboard/transactions"
+            className="text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            ← Back to transactions
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const stages = getStages(transaction)
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <Link
+          href="/dashboard/transactions"
+          className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          ← Back to transactions
+        </Link>
+        <div className="flex flex-wrap items-center gap-3 mt-2">
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">
+            {formatStatus(transaction.type)} Transaction
+          </h1>
+          <span
+            className={`inline-block px-2 py-1 text-xs font-medium rounded ${
+              STATUS_COLORS[transaction.status] || 'bg-gray-700 text-gray-300'
+            }`}
+          >
+            {formatStatus(transaction.status)}
+          </span>
+        </div>
+        <a
+          href={transaction.explorerUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block mt-2 text-blue-400 hover:text-blue-300 hover:underline font-mono text-sm break-all"
+        >
+          {transaction.txHash} ↗
+        </a>
+      </div>
+
+      {/* Status Timeline */}
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <h2 className="text-lg font-semibold text-white mb-6">Status Timeline</h2>
+        <ol className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {stages.map((stage, index) => (
+            <li key={stage.status} className="flex items-start gap-3">
+              <div
+                className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-sm font-bold ${
+                  stage.at ? STATUS_COLORS[stage.status] : 'bg-gray-900 text-gray-500 border border-gray-700'
+                }`}
+              >
+                {index + 1}
+              </div>
+              <div>
+                <p className={`text-sm font-medium ${stage.at ? 'text-white' : 'text-gray-500'}`}>
+                  {stage.label}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {stage.at ? formatDate(stage.at, true) : 'Not reached'}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {/* Every recorded change, e.g. reorgs and re-inclusions */}
+        {transaction.timeline.length > 1 && (
+          <div className="mt-6 border-t border-gray-700 pt-4 space-y-2">
+            <h3 className="text-sm font-medium text-gray-400">History</h3>
+            {transaction.timeline.map((entry, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-400 w-40">{formatDate(entry.at, true)}</span>
+                <span
+                  className={`px-2 py-0.5 text-xs font-medium rounded ${
+                    STATUS_COLORS[entry.status] || 'bg-gray-700 text-gray-300'
+                  }`}
+                >
+                  {formatStatus(entry.status)}
+                </span>
+                {entry.source && (
+                  <span className="text-gray-500">
+                    via {SOURCE_LABELS[entry.source] || entry.source}
+                    {entry.actor && ` (${formatAddress(entry.actor.walletAddress)})`}
+                  </span>
+                )}
+                {entry.reason && <span className="text-gray-400">{entry.reason}</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Amounts */}
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-2">Amounts</h2>
+          <DetailRow label="Token Amount">
+            <span className="font-mono">
+              {transaction.tokenAmount} {transaction.fromTokenSymbol}
+            </span>
+          </DetailRow>
+          <DetailRow label="Token Contract">
+            <span className="font-mono">{formatAddress(transaction.fromTokenAddress, 10, 8)}</span>
+          </DetailRow>
+          <DetailRow label="Fiat Value">
+            {transaction.toFiatCurrency && transaction.toFiatAmount !== null
+              ? formatCurrency(transaction.toFiatAmount, transaction.toFiatCurrency)
+              : '—'}
+          </DetailRow>
+          <DetailRow label="Exchange Rate">
+            {transaction.exchangeRate !== null
+              ? `1 ${transaction.fromTokenSymbol} = ${transaction.exchangeRate} ${transaction.toFiatCurrency ?? ''}`
+              : '—'}
+          </DetailRow>
+        </div>
+
+        {/* Fees */}
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-2">Fees</h2>
+          <DetailRow label="Gas">
+            <span className="font-mono">
+              {transaction.gas.native} {transaction.gas.nativeSymbol}
+            </span>
+          </DetailRow>
+          <DetailRow label="Gas (wei)">
+            <span className="font-mono">{transaction.gas.wei}</span>
+          </DetailRow>
+          <DetailRow label="Gas (USD)">{formatCurrency(transaction.gas.usd)}</DetailRow>
+          <DetailRow label="Platform Fee">{formatCurrency(transaction.platformFeeUSD)}</DetailRow>
+          <DetailRow label="Total Fees">{formatCurrency(transaction.totalFeesUSD)}</DetailRow>
+        </div>
+
+        {/* Chain */}
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-2">Blockchain</h2>
+          <DetailRow label="Network">
+            {transaction.networkName} ({transaction.chainId})
+          </DetailRow>
+          <DetailRow label="Block">{transaction.blockNumber.toLocaleString()}</DetailRow>
+          <DetailRow label="Timestamp">{formatDate(transaction.timestamp, true)}</DetailRow>
+          <DetailRow label="Finalized">
+            {transaction.finalizedAt ? formatDate(transaction.finalizedAt, true) : 'Not yet'}
+          </DetailRow>
+          <DetailRow label="From">
+            <span className="font-mono">{transaction.fromAddress}</span>
+          </DetailRow>
+          <DetailRow label="To">
+            <span className="font-mono">{transaction.toAddress}</span>
+          </DetailRow>
+        </div>
+
+        {/* Merchant and User */}
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-2">Parties</h2>
+          <DetailRow label="User">
+            <span className="font-mono">{formatAddress(transaction.user.walletAddress, 10, 8)}</span>
+          </DetailRow>
+          <DetailRow label="Merchant">
+            {transaction.merchantId
+              ? `${transaction.merchantName || transaction.merchantId} (${transaction.merchantId})`
+              : '—'}
+          </DetailRow>
+          {transaction.errorMessage && (
+            <DetailRow label="Error">
+              <span className="text-red-400">{transaction.errorMessage}</span>
+            </DetailRow>
+          )}
+        </div>
+      </div>
+
+      {/* Raw Metadata */}
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <h2 className="text-lg font-semibold text-white mb-4">Raw Metadata</h2>
+        <pre className="bg-gray-900 border border-gray-700 rounded-lg p-4 text-xs text-gray-300 overflow-x-auto">
+          {JSON.stringify(transaction.metadata, null, 2) ?? 'null'}
+        </pre>
+      </div>
+    </div>
+  )
+}
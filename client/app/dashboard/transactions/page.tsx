@@ -4,6 +4,7 @@
 'use client'
 
 import { useState } from 'react'
+import { useRouter } from 'next/navigation'
 import { useTransactions } from '@/hooks/useTransactions'
 import { useRoleAccess } from '@/hooks/useRoleAccess'
 import DataTable, { ColumnDef } from '@/components/dashboard/Tables/DataTable'
@@ -17,6 +18,7 @@ import {
 } from '@/lib/utils/formatting'
 
 export default function TransactionsPage() {
+  const router = useRouter()
   const [page, setPage] = useState(1)
   const [selectedType, setSelectedType] = useState<TransactionType | 'all'>('all')
   const [selectedStatus, setSelectedStatus] = useState<TransactionStatus | 'all'>('all')
@@ -49,6 +51,7 @@ export default function TransactionsPage() {
           href={getBlockExplorerUrl(tx.network, tx.txHash)}
           target="_blank"
           rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
           className="text-blue-400 hover:text-blue-300 hover:underline font-mono text-sm"
         >
           {formatAddress(tx.txHash, 10, 8)}
@@ -270,6 +273,7 @@ export default function TransactionsPage() {
         onPageChange={setPage}
         isLoading={isLoading}
         emptyMessage="No transactions found"
+        onRowClick={(tx) => router.push(`/dashboard/transactions/${tx.id}`)}
       />
     </div>
   )
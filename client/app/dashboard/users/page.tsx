@@ -0,0 +1,407 @@
+// User Management Page
+// View for users with manageUsers to search users and change roles, KYC status, region and merchant
+
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'react-toastify'
+import { useRoleAccess, getRoleDisplayName, getRoleBadgeColor } from '@/hooks/useRoleAccess'
+import {
+  useAdminUsers,
+  useUpdateAdminUser,
+  type AdminUser,
+  type AdminUserFilters,
+} from '@/hooks/useAdminUsers'
+import DataTable, { ColumnDef } from '@/components/dashboard/Tables/DataTable'
+import { toDashboardRole, type Permission } from '@/lib/auth/roles'
+import { formatAddress, formatDate, formatStatus } from '@/lib/utils/formatting'
+
+const ROLES = ['ADMIN', 'OPERATIONS', 'GROWTH', 'MERCHANT', 'USER'] as const
+const KYC_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'] as const
+
+const REQUIRED_PERMISSIONS: Permission[] = ['manageUsers']
+
+interface EditState {
+  role: AdminUser['role']
+  kycStatus: AdminUser['kycStatus']
+  region: string
+  merchantId: string
+  merchantName: string
+}
+
+export default function UsersPage() {
+  const [page, setPage] = useState(1)
+  const [filters, setFilters] = useState<AdminUserFilters>({})
+  const [editingUser, setEditingUser] = useState<AdminUser | null>(null)
+  const [editState, setEditState] = useState<EditState | null>(null)
+
+  const { hasAccess, isLoading: roleLoading, profile } = useRoleAccess(REQUIRED_PERMISSIONS)
+  const { data, isLoading } = useAdminUsers(page, filters, hasAccess)
+  const updateUser = useUpdateAdminUser()
+
+  const updateFilter = (changes: AdminUserFilters) => {
+    setFilters((current) => ({ ...current, ...changes }))
+    setPage(1)
+  }
+
+  const startEditing = (user: AdminUser) => {
+    setEditingUser(user)
+    setEditState({
+      role: user.role,
+      kycStatus: user.kycStatus,
+      region: user.region ?? '',
+      merchantId: user.merchantId ?? '',
+      merchantName: user.merchantName ?? '',
+    })
+  }
+
+  const handleSave = async () => {
+    if (!editingUser || !editState) return
+
+    try {
+      await updateUser.mutateAsync({
+        userId: editingUser.id,
+        role: editState.role,
+        kycStatus: editState.kycStatus,
+        region: editState.region.trim() || null,
+        merchantId: editState.merchantId.trim() || null,
+        merchantName: editState.merchantName.trim() || null,
+      })
+      toast.success('User updated')
+      setEditingUser(null)
+      setEditState(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update user')
+    }
+  }
+
+  const columns: ColumnDef<AdminUser>[] = [
+    {
+      key: 'walletAddress',
+      label: 'Wallet',
+      render: (user) => (
+        <div>
+          <div className="text-white font-mono text-sm">
+            {formatAddress(user.walletAddress, 6, 4)}
+          </div>
+          {user.email && <div className="text-xs text-gray-500">{user.email}</div>}
+        </div>
+      ),
+    },
+    {
+      key: 'role',
+      label: 'Role',
+      sortable: true,
+      render: (user) => {
+        const role = toDashboardRole(user.role)
+        return (
+          <span
+            className={`inline-block px-2 py-1 text-xs font-medium text-white rounded ${getRoleBadgeColor(role)}`}
+          >
+            {getRoleDisplayName(role)}
+          </span>
+        )
+      },
+    },
+    {
+      key: 'kycStatus',
+      label: 'KYC',
+      sortable: true,
+      render: (user) => {
+        const colors: Record<string, string> = {
+          PENDING: 'bg-yellow-900 text-yellow-300',
+          APPROVED: 'bg-green-900 text-green-300',
+          REJECTED: 'bg-red-900 text-red-300',
+        }
+        return (
+          <span className={`inline-block px-2 py-1 text-xs font-medium rounded ${colors[user.kycStatus]}`}>
+            {formatStatus(user.kycStatus)}
+          </span>
+        )
+      },
+    },
+    {
+      key: 'region',
+      label: 'Region',
+      sortable: true,
+      render: (user) => <span className="text-gray-300">{user.region || '—'}</span>,
+    },
+    {
+      key: 'merchantName',
+      label: 'Merchant',
+      render: (user) =>
+        user.merchantId ? (
+          <div>
+            <div className="text-white">{user.merchantName || user.merchantId}</div>
+            <div className="text-xs text-gray-500 font-mono">{user.merchantId}</div>
+          </div>
+        ) : (
+          <span className="text-gray-500">—</span>
+        ),
+    },
+    {
+      key: 'createdAt',
+      label: 'Joined',
+      sortable: true,
+      render: (user) => <span className="text-gray-400">{formatDate(user.createdAt)}</span>,
+    },
+    {
+      key: 'actions',
+      label: '',
+      render: (user) => (
+        <button
+          onClick={() => startEditing(user)}
+          className="px-3 py-1 text-sm font-medium text-white bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+        >
+          Edit
+        </button>
+      ),
+    },
+  ]
+
+  if (roleLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  // Access denied without manageUsers
+  if (!hasAccess) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="bg-red-900/20 border border-red-700/50 rounded-xl p-8 max-w-md text-center">
+          <div className="text-4xl mb-4">🔒</div>
+          <h2 className="text-2xl font-bold text-white mb-2">Access Denied</h2>
+          <p className="text-gray-300">User management requires the Manage Users permission.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-white mb-2">User Management</h1>
+        <p className="text-gray-400">Manage roles, KYC status, regions and merchant accounts</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-gray-800 rounded-xl p-4 sm:p-6 border border-gray-700">
+        <h3 className="text-sm font-medium text-gray-400 mb-4">Filters</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="user-search" className="block text-sm font-medium text-gray-300 mb-2">
+              Search
+            </label>
+            <input
+              id="user-search"
+              type="text"
+              placeholder="Wallet, email or merchant"
+              value={filters.search ?? ''}
+              onChange={(e) => updateFilter({ search: e.target.value || undefined })}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="role-filter" className="block text-sm font-medium text-gray-300 mb-2">
+              Role
+            </label>
+            <select
+              id="role-filter"
+              value={filters.role ?? ''}
+              onChange={(e) =>
+                updateFilter({ role: (e.target.value || undefined) as AdminUserFilters['role'] })
+              }
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Roles</option>
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {getRoleDisplayName(toDashboardRole(role))}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="kyc-filter" className="block text-sm font-medium text-gray-300 mb-2">
+              KYC Status
+            </label>
+            <select
+              id="kyc-filter"
+              value={filters.kycStatus ?? ''}
+              onChange={(e) =>
+                updateFilter({
+                  kycStatus: (e.target.value || undefined) as AdminUserFilters['kycStatus'],
+                })
+              }
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Statuses</option>
+              {KYC_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {formatStatus(status)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="region-filter" className="block text-sm font-medium text-gray-300 mb-2">
+              Region
+            </label>
+            <input
+              id="region-filter"
+              type="text"
+              placeholder="e.g. NG"
+              value={filters.region ?? ''}
+              onChange={(e) => updateFilter({ region: e.target.value || undefined })}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Users Table */}
+      <DataTable
+        columns={columns}
+        data={data?.users || []}
+        pagination={data?.pagination}
+        onPageChange={setPage}
+        isLoading={isLoading}
+        emptyMessage="No users found"
+      />
+
+      {/* Edit Panel */}
+      {editingUser && editState && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="w-full max-w-lg bg-gray-800 rounded-xl border border-gray-700 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-700">
+              <h2 className="text-lg font-semibold text-white">Edit User</h2>
+              <p className="text-sm text-gray-400 font-mono">{editingUser.walletAddress}</p>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="edit-role" className="block text-sm font-medium text-gray-400 mb-2">
+                    Role
+                  </label>
+                  <select
+                    id="edit-role"
+                    value={editState.role}
+                    disabled={editingUser.id === profile?.id}
+                    onChange={(e) =>
+                      setEditState({ ...editState, role: e.target.value as EditState['role'] })
+                    }
+                    className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {getRoleDisplayName(toDashboardRole(role))}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="edit-kyc" className="block text-sm font-medium text-gray-400 mb-2">
+                    KYC Status
+                  </label>
+                  <select
+                    id="edit-kyc"
+                    value={editState.kycStatus}
+                    onChange={(e) =>
+                      setEditState({
+                        ...editState,
+                        kycStatus: e.target.value as EditState['kycStatus'],
+                      })
+                    }
+                    className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {KYC_STATUSES.map((status) => (
+                      <option key={status} value={status}>
+                        {formatStatus(status)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="edit-region" className="block text-sm font-medium text-gray-400 mb-2">
+                  Region
+                </label>
+                <input
+                  id="edit-region"
+                  type="text"
+                  value={editState.region}
+                  onChange={(e) => setEditState({ ...editState, region: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label
+                    htmlFor="edit-merchant-id"
+                    className="block text-sm font-medium text-gray-400 mb-2"
+                  >
+                    Merchant ID
+                  </label>
+                  <input
+                    id="edit-merchant-id"
+                    type="text"
+                    value={editState.merchantId}
+                    onChange={(e) => setEditState({ ...editState, merchantId: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="edit-merchant-name"
+                    className="block text-sm font-medium text-gray-400 mb-2"
+                  >
+                    Merchant Name
+                  </label>
+                  <input
+                    id="edit-merchant-name"
+                    type="text"
+                    value={editState.merchantName}
+                    onChange={(e) => setEditState({ ...editState, merchantName: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">Every change is recorded in the audit log.</p>
+            </div>
+
+            <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-700">
+              <button
+                onClick={() => {
+                  setEditingUser(null)
+                  setEditState(null)
+                }}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={updateUser.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg transition-colors"
+              >
+                {updateUser.isPending ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useAccount, useDisconnect as useWagmiDisconnect } from 'wagmi'
 import { useAppKitAccount, useAppKit, useDisconnect, useWalletInfo } from '@reown/appkit/react'
 import { toast } from 'react-toastify'
+import { useSiweAuth } from '@/hooks/useSiweAuth'
 
 export default function WalletConnect() {
   // AppKit hooks
@@ -14,6 +15,9 @@ export default function WalletConnect() {
   // Wagmi hooks
   const { address: wagmiAddress, isConnected: wagmiIsConnected, connector } = useAccount()
   const { disconnect: wagmiDisconnect } = useWagmiDisconnect()
+
+  // SIWE session
+  const { isAuthenticated, isLoading: isSigningIn, signIn, signOut } = useSiweAuth()
   
   const address = appkitAddress || wagmiAddress
   const isConnected = appkitIsConnected || wagmiIsConnected
@@ -26,8 +30,21 @@ export default function WalletConnect() {
     }
   }
 
-  const handleDisconnect = () => {
+  const handleSignIn = async () => {
     try {
+      await signIn()
+      toast.success('Signed in')
+    } catch (error) {
+      console.error("Sign-in error:", error)
+      toast.error('Sign-in failed')
+    }
+  }
+
+  const handleDisconnect = async () => {
+    try {
+      if (isAuthenticated) {
+        await signOut()
+      }
       if (appkitIsConnected) {
         appkitDisconnect()
       }
@@ -64,6 +81,15 @@ export default function WalletConnect() {
           {formatAddress(address)}
         </span>
       </div>
+      {!isAuthenticated && (
+        <button
+          onClick={handleSignIn}
+          disabled={isSigningIn}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          {isSigningIn ? 'Signing in...' : 'Sign In'}
+        </button>
+      )}
       <button
         onClick={handleDisconnect}
         className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm font-medium"
@@ -0,0 +1,218 @@
+// ApiKeysSettings Component
+// Merchant API key management for the settings page
+
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'react-toastify'
+import {
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+  type ApiKey,
+  type CreatedApiKey,
+} from '@/hooks/useApiKeys'
+import type { ApiKeyScope } from '@/lib/auth/apiKeys'
+import { formatDate, formatRelativeTime } from '@/lib/utils/formatting'
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'transactions:read': 'Read transactions',
+  'analytics:read': 'Read analytics',
+  'payment_intents:create': 'Create payment intents',
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: 0 },
+]
+
+/**
+ * Status of a key for display
+ */
+function getKeyStatus(key: ApiKey): { label: string; className: string } {
+  if (key.revokedAt) return { label: 'Revoked', className: 'bg-red-900 text-red-300' }
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) {
+    return { label: 'Expired', className: 'bg-yellow-900 text-yellow-300' }
+  }
+  return { label: 'Active', className: 'bg-green-900 text-green-300' }
+}
+
+export default function ApiKeysSettings() {
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['transactions:read'])
+  const [expiresInDays, setExpiresInDays] = useState(90)
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null)
+
+  const { data, isLoading } = useApiKeys()
+  const createKey = useCreateApiKey()
+  const revokeKey = useRevokeApiKey()
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    )
+  }
+
+  const handleCreate = async () => {
+    try {
+      const key = await createKey.mutateAsync({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiresInDays || undefined,
+      })
+      setCreatedKey(key)
+      setName('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create API key')
+    }
+  }
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Requests using it will be rejected immediately.`)) return
+
+    try {
+      await revokeKey.mutateAsync(key.id)
+      toast.success('API key revoked')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke API key')
+    }
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-700">
+        <h2 className="text-lg font-semibold text-white">API Keys</h2>
+        <p className="text-xs text-gray-400 mt-1">
+          Server-to-server access to your merchant data. Send the key as{' '}
+          <code className="text-gray-300">Authorization: Bearer &lt;key&gt;</code>
+        </p>
+      </div>
+      <div className="p-6 space-y-6">
+        {/* New key, shown once */}
+        {createdKey && (
+          <div className="bg-green-900/20 border border-green-700/50 rounded-lg p-4">
+            <p className="text-sm font-medium text-green-400 mb-2">
+              Copy your new key now - it won&apos;t be shown again
+            </p>
+            <div className="flex items-center justify-between gap-4 bg-gray-900 border border-gray-700 rounded-lg px-4 py-3">
+              <span className="font-mono text-sm text-white break-all">{createdKey.key}</span>
+              <button
+                onClick={() => navigator.clipboard.writeText(createdKey.key)}
+                className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                Copy
+              </button>
+            </div>
+            <button
+              onClick={() => setCreatedKey(null)}
+              className="mt-3 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {/* Create Key */}
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Key Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Production backend"
+              className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Scopes</label>
+            <div className="flex flex-wrap gap-4">
+              {(data?.scopes ?? []).map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-white">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="rounded border-gray-600 bg-gray-900"
+                  />
+                  {SCOPE_LABELS[scope] ?? scope}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Expires</label>
+            <select
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || scopes.length === 0 || createKey.isPending}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+          >
+            {createKey.isPending ? 'Creating...' : 'Create API Key'}
+          </button>
+        </div>
+
+        {/* Existing Keys */}
+        <div className="space-y-3">
+          {isLoading && <p className="text-sm text-gray-400">Loading API keys...</p>}
+          {data?.keys.length === 0 && (
+            <p className="text-sm text-gray-400">No API keys yet</p>
+          )}
+          {data?.keys.map((key) => {
+            const status = getKeyStatus(key)
+            return (
+              <div
+                key={key.id}
+                className="flex items-center justify-between gap-4 bg-gray-900 border border-gray-700 rounded-lg px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-medium">{key.name}</span>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono mt-1">{key.prefix}…</div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    {key.scopes.map((scope) => SCOPE_LABELS[scope] ?? scope).join(', ')}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Created {formatDate(key.createdAt)}
+                    {' · '}
+                    {key.lastUsedAt ? `Last used ${formatRelativeTime(key.lastUsedAt)}` : 'Never used'}
+                    {key.expiresAt && ` · Expires ${formatDate(key.expiresAt)}`}
+                  </div>
+                </div>
+                {!key.revokedAt && (
+                  <button
+                    onClick={() => handleRevoke(key)}
+                    disabled={revokeKey.isPending}
+                    className="px-3 py-1.5 text-sm font-medium text-red-400 hover:text-red-300 border border-red-700/50 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
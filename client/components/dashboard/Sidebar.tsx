@@ -1,18 +1,18 @@
 // Sidebar Navigation Component
-// Responsive sidebar with role-based navigation items
+// Responsive sidebar with permission-based navigation items
 
 'use client'
 
 import { usePathname } from 'next/navigation'
 import Link from 'next/link'
 import { useRoleAccess, getRoleDisplayName, getRoleBadgeColor } from '@/hooks/useRoleAccess'
-import { UserRole } from '@/types/analytics'
+import type { Permission } from '@/lib/auth/roles'
 
 interface NavItem {
   name: string
   href: string
   icon: string
-  requiredRoles?: UserRole[]
+  requiredPermission?: Permission
 }
 
 const navigation: NavItem[] = [
@@ -22,13 +22,19 @@ const navigation: NavItem[] = [
     name: 'Analytics',
     href: '/dashboard/analytics',
     icon: '📈',
-    requiredRoles: [UserRole.ADMIN, UserRole.OPERATIONS, UserRole.GROWTH],
+    requiredPermission: 'viewAnalytics',
   },
   {
     name: 'Reports',
     href: '/dashboard/reports',
     icon: '📄',
-    requiredRoles: [UserRole.ADMIN, UserRole.OPERATIONS, UserRole.GROWTH, UserRole.MERCHANT],
+    requiredPermission: 'exportReports',
+  },
+  {
+    name: 'Users',
+    href: '/dashboard/users',
+    icon: '👥',
+    requiredPermission: 'manageUsers',
   },
   {
     name: 'Settings',
@@ -44,12 +50,14 @@ interface SidebarProps {
 
 export default function Sidebar({ isMobileOpen = false, onMobileClose }: SidebarProps) {
   const pathname = usePathname()
-  const { role, permissions, address } = useRoleAccess()
+  const { role, permissions, address, isLoading, isUnknown } = useRoleAccess()
 
-  // Filter navigation items based on user role
+  // Filter navigation items based on the user's effective permissions
+  // Restricted items stay hidden until the profile is known
   const visibleNavItems = navigation.filter(item => {
-    if (!item.requiredRoles) return true
-    return item.requiredRoles.includes(role)
+    if (!item.requiredPermission) return true
+    if (isUnknown || isLoading) return false
+    return permissions[item.requiredPermission]
   })
 
   const isActive = (href: string) => {
@@ -109,13 +117,21 @@ export default function Sidebar({ isMobileOpen = false, onMobileClose }: Sidebar
                 <p className="text-sm font-medium text-white truncate">
                   {address?.slice(0, 6)}...{address?.slice(-4)}
                 </p>
-                <span
-                  className={`inline-block px-2 py-0.5 text-xs font-medium text-white rounded ${getRoleBadgeColor(
-                    role
-                  )}`}
-                >
-                  {getRoleDisplayName(role)}
-                </span>
+                {isLoading ? (
+                  <span className="inline-block h-4 w-16 rounded bg-gray-700 animate-pulse" />
+                ) : isUnknown ? (
+                  <span className="inline-block px-2 py-0.5 text-xs font-medium text-gray-300 rounded bg-gray-700">
+                    Sign in to load role
+                  </span>
+                ) : (
+                  <span
+                    className={`inline-block px-2 py-0.5 text-xs font-medium text-white rounded ${getRoleBadgeColor(
+                      role
+                    )}`}
+                  >
+                    {getRoleDisplayName(role)}
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -20,6 +20,7 @@ interface DataTableProps<T> {
   onPageChange?: (page: number) => void
   isLoading?: boolean
   emptyMessage?: string
+  onRowClick?: (item: T) => void
 }
 
 export default function DataTable<T extends Record<string, any>>({
@@ -29,6 +30,7 @@ export default function DataTable<T extends Record<string, any>>({
   onPageChange,
   isLoading = false,
   emptyMessage = 'No data available',
+  onRowClick,
 }: DataTableProps<T>) {
   const [sortKey, setSortKey] = useState<string | null>(null)
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
@@ -113,7 +115,10 @@ export default function DataTable<T extends Record<string, any>>({
             {sortedData.map((item, index) => (
               <tr
                 key={index}
-                className="hover:bg-gray-700/50 transition-colors"
+                onClick={onRowClick ? () => onRowClick(item) : undefined}
+                className={`hover:bg-gray-700/50 transition-colors ${
+                  onRowClick ? 'cursor-pointer' : ''
+                }`}
               >
                 {columns.map((column) => (
                   <td
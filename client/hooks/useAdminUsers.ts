@@ -0,0 +1,91 @@
+// useAdminUsers hook - Admin user management
+// Lists users and updates roles, KYC status, region and merchant assignment
+
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { UserRole, KycStatus } from '@prisma/client'
+import { PaginationConfig } from '@/types/analytics'
+import type { UserProfile } from '@/hooks/useRoleAccess'
+import type { Permission } from '@/lib/auth/roles'
+
+export interface AdminUser extends Omit<UserProfile, 'permissions'> {
+  updatedAt: string
+  permissionOverrides: { permission: Permission; granted: boolean }[]
+}
+
+export interface AdminUserFilters {
+  search?: string
+  role?: UserRole
+  kycStatus?: KycStatus
+  region?: string
+}
+
+export interface AdminUserUpdate {
+  userId: string
+  role?: UserRole
+  kycStatus?: KycStatus
+  region?: string | null
+  merchantId?: string | null
+  merchantName?: string | null
+  customRoleId?: string | null
+  permissions?: Partial<Record<Permission, boolean | null>>
+}
+
+interface AdminUsersResponse {
+  users: AdminUser[]
+  pagination: PaginationConfig
+}
+
+/**
+ * Hook to search users (requires the manageUsers permission)
+ *
+ * @param page - Page number
+ * @param filters - Search text and role/KYC/region filters
+ * @returns React Query result with users and pagination
+ */
+export function useAdminUsers(page: number, filters: AdminUserFilters, enabled = true) {
+  return useQuery({
+    queryKey: ['admin', 'users', page, filters],
+    queryFn: async (): Promise<AdminUsersResponse> => {
+      const params = new URLSearchParams({ page: page.toString(), limit: '20' })
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value)
+      }
+
+      const response = await fetch(`/api/admin/users?${params}`)
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load users')
+      }
+      return body.data
+    },
+    enabled,
+    placeholderData: (previous) => previous,
+  })
+}
+
+/**
+ * Hook to update a user; refreshes the user list on success
+ */
+export function useUpdateAdminUser() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (update: AdminUserUpdate): Promise<AdminUser> => {
+      const response = await fetch('/api/admin/users', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to update user')
+      }
+      return body.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'users'] })
+    },
+  })
+}
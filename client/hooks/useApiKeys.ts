@@ -0,0 +1,103 @@
+// useApiKeys hook - Merchant API key management
+// Lists, creates and revokes API keys for server-to-server access
+
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { ApiKeyScope } from '@/lib/auth/apiKeys'
+
+export interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+  user: { walletAddress: string }
+}
+
+export interface CreatedApiKey extends ApiKey {
+  key: string // Only returned once, at creation
+}
+
+export interface ApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  expiresInDays?: number
+}
+
+interface ApiKeysResponse {
+  keys: ApiKey[]
+  scopes: ApiKeyScope[]
+}
+
+/**
+ * Hook to list the merchant's API keys
+ *
+ * @param enabled - Only fetch for signed-in merchant users
+ * @returns React Query result with keys and the available scopes
+ */
+export function useApiKeys(enabled = true) {
+  return useQuery({
+    queryKey: ['api-keys'],
+    queryFn: async (): Promise<ApiKeysResponse> => {
+      const response = await fetch('/api/api-keys')
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load API keys')
+      }
+      return body.data
+    },
+    enabled,
+  })
+}
+
+/**
+ * Hook to create an API key; the returned key must be copied before it's dismissed
+ */
+export function useCreateApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: ApiKeyInput): Promise<CreatedApiKey> => {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to create API key')
+      }
+      return body.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+    },
+  })
+}
+
+/**
+ * Hook to revoke an API key
+ */
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<ApiKey> => {
+      const response = await fetch(`/api/api-keys?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to revoke API key')
+      }
+      return body.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+    },
+  })
+}
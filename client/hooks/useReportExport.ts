@@ -0,0 +1,33 @@
+// useReportExport hook - Report export auditing
+// Records a report download in the audit log before the file is generated
+
+'use client'
+
+import { useMutation } from '@tanstack/react-query'
+import type { ReportFormat, ReportType } from '@/lib/analytics/reports'
+
+export interface ReportExportInput {
+  reportType: ReportType
+  format: ReportFormat
+  daysBack: number
+}
+
+/**
+ * Hook to record a report export; the download must wait for it to succeed
+ */
+export function useReportExport() {
+  return useMutation({
+    mutationFn: async (input: ReportExportInput): Promise<{ exportId: string }> => {
+      const response = await fetch('/api/reports/exports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to record report export')
+      }
+      return body.data
+    },
+  })
+}
@@ -1,95 +1,91 @@
 // useRoleAccess hook - Role-based access control
-// Integrates with Reown AppKit for wallet authentication
+// Loads the signed-in user's profile and role from the API
 
 'use client'
 
 import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { useAppKitAccount } from '@reown/appkit/react'
+import type { UserRole as PrismaUserRole, KycStatus } from '@prisma/client'
+import { useSiweAuth } from '@/hooks/useSiweAuth'
 import { UserRole } from '@/types/analytics'
+import { toDashboardRole, PERMISSIONS, type Permission, type RolePermissions } from '@/lib/auth/roles'
 
-// TODO: Replace with actual user data from backend when ready
-// For now, we'll determine role based on wallet address
-// In production, this should fetch from your user management API
-
-interface RolePermissions {
-  viewAllTransactions: boolean
-  viewAllUsers: boolean
-  viewAnalytics: boolean
-  viewMerchantData: boolean
-  exportReports: boolean
-  configureAlerts: boolean
-  manageUsers: boolean
-  viewRealtime: boolean
+// Profile returned by GET /api/user
+export interface UserProfile {
+  id: string
+  walletAddress: string
+  email: string | null
+  role: PrismaUserRole
+  socialProvider: string | null
+  kycStatus: KycStatus
+  region: string | null
+  merchantId: string | null
+  merchantName: string | null
+  createdAt: string
+  customRoleId: string | null
+  customRole: { id: string; name: string } | null
+  permissions: RolePermissions // Effective permissions, resolved server-side
 }
 
+// No permissions until the profile is loaded
+const NO_PERMISSIONS = Object.fromEntries(
+  PERMISSIONS.map((permission) => [permission, false])
+) as RolePermissions
+
 /**
  * Hook to manage role-based access control
- * Uses wallet address from Reown AppKit to determine user role
+ * Fetches the profile and effective permissions of the signed-in wallet; the API enforces
+ * the same permissions server-side
  *
- * @param allowedRoles - Array of roles that have access to the feature
- * @returns Object with access info and permissions
+ * @param requiredPermissions - Permissions the feature needs; all of them must be granted
+ * @returns Object with access info, permissions and profile state
  */
-export function useRoleAccess(allowedRoles?: UserRole[]) {
-  const { address, isConnected } = useAppKitAccount()
+export function useRoleAccess(requiredPermissions?: Permission[]) {
+  const { address } = useAppKitAccount()
+  const { isConnected, isAuthenticated, session } = useSiweAuth()
+  const walletAddress = session?.user.walletAddress
 
-  // TODO: Replace with actual role fetching from backend
-  // This is a mock implementation for frontend development
-  const role = useMemo((): UserRole => {
-    if (!address) return UserRole.USER
+  const profileQuery = useQuery({
+    queryKey: ['user', 'profile', walletAddress],
+    queryFn: async (): Promise<UserProfile> => {
+      const response = await fetch(`/api/user?address=${walletAddress}`)
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load profile')
+      }
+      return body.data
+    },
+    enabled: isAuthenticated && !!walletAddress,
+    staleTime: 5 * 60 * 1000, // Roles rarely change
+  })
 
-    // For demo purposes, assign roles based on address
-    // In production, fetch this from your backend API
-    const addressLower = address.toLowerCase()
+  const profile = profileQuery.data ?? null
 
-    // Demo: First few characters determine role
-    if (addressLower.startsWith('0x00') || addressLower.startsWith('0x11')) {
-      return UserRole.ADMIN
-    }
-    if (addressLower.startsWith('0x22')) {
-      return UserRole.OPERATIONS
-    }
-    if (addressLower.startsWith('0x33')) {
-      return UserRole.GROWTH
-    }
-    if (addressLower.startsWith('0x44')) {
-      return UserRole.MERCHANT
-    }
+  // Unknown until the profile loads - treated as a regular user
+  const role = profile ? toDashboardRole(profile.role) : UserRole.USER
+  const isLoading = isAuthenticated && profileQuery.isLoading
+  const isUnknown = !profile && !isLoading
 
-    return UserRole.USER
-  }, [address])
+  const permissions = profile?.permissions ?? NO_PERMISSIONS
 
-  // Determine if user has access based on allowed roles
+  // Access follows effective permissions, so custom roles and overrides apply
   const hasAccess = useMemo(() => {
-    if (!isConnected) return false
-    if (!allowedRoles || allowedRoles.length === 0) return true
-    return allowedRoles.includes(role)
-  }, [isConnected, role, allowedRoles])
-
-  // Define permissions based on role
-  const permissions = useMemo((): RolePermissions => {
-    const isAdmin = role === UserRole.ADMIN
-    const isOperations = role === UserRole.OPERATIONS
-    const isGrowth = role === UserRole.GROWTH
-    const isMerchant = role === UserRole.MERCHANT
-
-    return {
-      viewAllTransactions: isAdmin || isOperations || isGrowth,
-      viewAllUsers: isAdmin || isOperations || isGrowth,
-      viewAnalytics: isAdmin || isOperations || isGrowth,
-      viewMerchantData: isAdmin || isOperations || isMerchant,
-      exportReports: isAdmin || isOperations || isGrowth || isMerchant,
-      configureAlerts: isAdmin || isOperations,
-      manageUsers: isAdmin,
-      viewRealtime: isAdmin || isOperations,
-    }
-  }, [role])
+    if (!isConnected || !profile) return false
+    return (requiredPermissions ?? []).every((permission) => permissions[permission])
+  }, [isConnected, profile, permissions, requiredPermissions])
 
   return {
     hasAccess,
     role,
     permissions,
+    profile,
+    isLoading,
+    isUnknown,
+    isAuthenticated,
     isConnected,
     address,
+    error: profileQuery.error,
   }
 }
 
@@ -0,0 +1,76 @@
+// useSiweAuth hook - Sign-In with Ethereum
+// Signs a SIWE message with the connected AppKit wallet and opens a NextAuth session
+
+'use client'
+
+import { useCallback, useState } from 'react'
+import { useAppKitAccount, useAppKitNetwork, useAppKitProvider } from '@reown/appkit/react'
+import { BrowserProvider, type Eip1193Provider } from 'ethers'
+import { SiweMessage } from 'siwe'
+import { signIn, signOut, useSession } from 'next-auth/react'
+
+/**
+ * Hook to sign in with the connected wallet
+ *
+ * @returns Session state plus signIn/signOut actions
+ */
+export function useSiweAuth() {
+  const { address, isConnected } = useAppKitAccount()
+  const { chainId } = useAppKitNetwork()
+  const { walletProvider } = useAppKitProvider<Eip1193Provider>('eip155')
+  const { data: session, status, update } = useSession()
+  const [isSigningIn, setIsSigningIn] = useState(false)
+
+  // The session belongs to the connected wallet only
+  const isAuthenticated =
+    status === 'authenticated' &&
+    !!address &&
+    session.user.walletAddress === address.toLowerCase()
+
+  const signInWithEthereum = useCallback(async () => {
+    if (!address || !walletProvider || !chainId) {
+      throw new Error('Connect a wallet first')
+    }
+
+    setIsSigningIn(true)
+    try {
+      const nonceResponse = await fetch('/api/auth/nonce')
+      const { data } = await nonceResponse.json()
+
+      const message = new SiweMessage({
+        domain: window.location.host,
+        address,
+        statement: 'Sign in to KeloPay',
+        uri: window.location.origin,
+        version: '1',
+        chainId: Number(chainId),
+        nonce: data.nonce,
+      }).prepareMessage()
+
+      const signer = await new BrowserProvider(walletProvider).getSigner()
+      const signature = await signer.signMessage(message)
+
+      const result = await signIn('siwe', { message, signature, redirect: false })
+      if (result?.error) {
+        throw new Error('Sign-in failed')
+      }
+
+      await update()
+    } finally {
+      setIsSigningIn(false)
+    }
+  }, [address, chainId, walletProvider, update])
+
+  const signOutOfSession = useCallback(async () => {
+    await signOut({ redirect: false })
+  }, [])
+
+  return {
+    session,
+    isConnected,
+    isAuthenticated,
+    isLoading: status === 'loading' || isSigningIn,
+    signIn: signInWithEthereum,
+    signOut: signOutOfSession,
+  }
+}
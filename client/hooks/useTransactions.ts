@@ -52,3 +52,72 @@ export function useTransactions(options: UseTransactionsOptions = {}) {
     placeholderData: (previousData) => previousData, // Keep previous data while fetching
   })
 }
+
+export interface TransactionTimelineEntry {
+  fromStatus: string | null
+  status: string
+  source: string | null // WEBHOOK, BACKFILL, CONFIRMATION_TRACKER, CONTRACT_EVENT or OPERATOR
+  actor: { id: string; walletAddress: string } | null
+  reason: string | null
+  metadata: Record<string, unknown> | null
+  at: string
+}
+
+// Transaction as returned by GET /api/transactions/:id (database field names)
+export interface TransactionDetail {
+  id: string
+  txHash: string
+  blockNumber: number
+  blockHash: string | null
+  timestamp: string
+  finalizedAt: string | null
+  network: string
+  networkName: string
+  chainId: number
+  type: string
+  status: string
+  fromAddress: string
+  toAddress: string
+  fromTokenSymbol: string
+  fromTokenAddress: string
+  fromTokenAmount: string
+  fromTokenDecimals: number
+  tokenAmount: string
+  toFiatCurrency: string | null
+  toFiatAmount: number | null
+  exchangeRate: number | null
+  gas: { wei: string; native: string; nativeSymbol: string; usd: number }
+  platformFeeUSD: number
+  totalFeesUSD: number
+  merchantId: string | null
+  merchantName: string | null
+  metadata: Record<string, unknown> | null
+  errorMessage: string | null
+  explorerUrl: string
+  user: { id: string; walletAddress: string; email: string | null; role: string }
+  timeline: TransactionTimelineEntry[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Hook to fetch a single transaction by ID or transaction hash
+ *
+ * @param id - Transaction ID or hash
+ * @returns React Query result with the transaction, amounts and status timeline
+ */
+export function useTransaction(id: string) {
+  return useQuery({
+    queryKey: ['transaction', id],
+    queryFn: async (): Promise<TransactionDetail> => {
+      const response = await fetch(`/api/transactions/${encodeURIComponent(id)}`)
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load transaction')
+      }
+      return body.data
+    },
+    enabled: !!id,
+    retry: false,
+  })
+}
@@ -0,0 +1,115 @@
+// Transaction Filters
+// Validates the dashboard FilterConfig and turns it into a Prisma where clause
+
+import { z } from 'zod'
+import { Prisma, TransactionType, TransactionStatus, UserRole } from '@prisma/client'
+
+/**
+ * Enum values are accepted in either case: the dashboard uses lowercase
+ * ("completed"), the database uppercase ("COMPLETED")
+ */
+function caseInsensitiveEnum<T extends Record<string, string>>(values: T) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' ? value.toUpperCase() : value),
+    z.nativeEnum(values)
+  )
+}
+
+// Same shape as FilterConfig in types/analytics.ts; dates arrive as ISO strings
+export const filterConfigSchema = z.object({
+  dateRange: z
+    .object({
+      startDate: z.coerce.date().optional(),
+      endDate: z.coerce.date().optional(),
+      preset: z.enum(['24h', '7d', '30d', '90d', '1y', 'all', 'custom']).optional(),
+    })
+    .optional(),
+  transaction: z
+    .object({
+      types: z.array(caseInsensitiveEnum(TransactionType)).optional(),
+      statuses: z.array(caseInsensitiveEnum(TransactionStatus)).optional(),
+      networks: z.array(z.string()).optional(),
+      tokens: z.array(z.string()).optional(),
+      amountRange: z
+        .object({
+          min: z.number().min(0).optional(),
+          max: z.number().min(0).optional(),
+          currency: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  user: z
+    .object({
+      roles: z.array(caseInsensitiveEnum(UserRole)).optional(),
+      regions: z.array(z.string()).optional(),
+    })
+    .optional(),
+  merchant: z
+    .object({
+      // Transactions don't record a merchant category yet
+      categories: z
+        .array(z.string())
+        .max(0, 'Filtering by merchant category is not supported')
+        .optional(),
+      ids: z.array(z.string()).optional(),
+    })
+    .optional(),
+  // Aggregation options - accepted so the dashboard can send its filters as-is
+  segmentBy: z.enum(['network', 'token', 'userRole', 'merchantCategory', 'region']).optional(),
+  groupBy: z.enum(['hour', 'day', 'week', 'month']).optional(),
+})
+
+export type TransactionFilters = z.infer<typeof filterConfigSchema>
+
+/**
+ * Build a where clause from validated filters
+ * Empty lists are ignored. The amount range applies to the fiat amount and, with
+ * a currency, only to transactions settled in that currency.
+ */
+export function buildTransactionWhere(filters: TransactionFilters): Prisma.TransactionWhereInput[] {
+  const conditions: Prisma.TransactionWhereInput[] = []
+  const { dateRange, transaction, user, merchant } = filters
+
+  if (dateRange && dateRange.preset !== 'all' && (dateRange.startDate || dateRange.endDate)) {
+    conditions.push({ timestamp: { gte: dateRange.startDate, lte: dateRange.endDate } })
+  }
+
+  if (transaction?.types?.length) conditions.push({ type: { in: transaction.types } })
+  if (transaction?.statuses?.length) conditions.push({ status: { in: transaction.statuses } })
+  if (transaction?.networks?.length) {
+    conditions.push({ network: { in: transaction.networks.map((n) => n.toLowerCase()) } })
+  }
+  if (transaction?.tokens?.length) {
+    conditions.push({ fromTokenSymbol: { in: transaction.tokens.map((t) => t.toUpperCase()) } })
+  }
+
+  const amountRange = transaction?.amountRange
+  if (amountRange && (amountRange.min !== undefined || amountRange.max !== undefined)) {
+    conditions.push({ toFiatAmount: { gte: amountRange.min, lte: amountRange.max } })
+  }
+  if (amountRange?.currency) {
+    conditions.push({ toFiatCurrency: amountRange.currency.toUpperCase() })
+  }
+
+  if (user?.roles?.length) conditions.push({ user: { role: { in: user.roles } } })
+  if (user?.regions?.length) conditions.push({ user: { region: { in: user.regions } } })
+
+  if (merchant?.ids?.length) conditions.push({ merchantId: { in: merchant.ids } })
+
+  return conditions
+}
+
+/**
+ * Free-text search on transaction hash and from/to addresses
+ */
+export function buildTransactionSearch(search: string): Prisma.TransactionWhereInput {
+  const term = search.trim().toLowerCase()
+  return {
+    OR: [
+      { txHash: { contains: term, mode: 'insensitive' } },
+      { fromAddress: { contains: term, mode: 'insensitive' } },
+      { toAddress: { contains: term, mode: 'insensitive' } },
+    ],
+  }
+}
@@ -0,0 +1,696 @@
+// Analytics Overview
+// Dashboard summary, breakdowns and time series aggregated in the database
+
+import { Prisma, type Transaction } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { findChainConfig } from '@/lib/blockchain/chains'
+import { ROLLUP_TABLES, TOKEN_AMOUNT_SQL, VOLUME_USD_SQL, type RollupTable } from './rollups'
+import type {
+  AnalyticsComparison,
+  AnalyticsMetrics,
+  AnalyticsSummary,
+  DashboardData,
+  MetricChange,
+  NetworkDistribution,
+  NetworkStats,
+  TokenStats,
+  Transaction as AnalyticsTransaction,
+  TransactionStatus as AnalyticsTransactionStatus,
+  TransactionType as AnalyticsTransactionType,
+  VolumeData,
+} from '@/types/analytics'
+
+// Number of latest transactions included in the overview
+const LATEST_TRANSACTIONS = 100
+
+export type Granularity = AnalyticsMetrics['granularity']
+
+export interface OverviewRange {
+  startDate: Date
+  endDate: Date
+}
+
+// Period the summary is compared with: the window just before, the same window a year
+// earlier, or an explicit range
+export type CompareTo = 'previous' | 'previous_year' | OverviewRange
+
+// How the time series is bucketed
+export interface OverviewBuckets {
+  granularity: Granularity
+  timeZone: string // IANA name, e.g. "Africa/Lagos"
+}
+
+// Postgres date_trunc unit and step for each granularity; weeks are ISO weeks (Monday start)
+const GRANULARITY_INTERVALS: Record<Granularity, { unit: string; step: string }> = {
+  hourly: { unit: 'hour', step: '1 hour' },
+  daily: { unit: 'day', step: '1 day' },
+  weekly: { unit: 'week', step: '1 week' },
+  monthly: { unit: 'month', step: '1 month' },
+}
+
+/**
+ * The transactions an overview covers, in three forms:
+ * - scope: condition on the transactions table without the time range, for users' first transactions
+ * - where: condition on the transactions table, for distinct counts that can't be pre-aggregated
+ * - facts: grouped totals with the columns of the rollup tables, read from the rollups where
+ *   possible and from transactions for the rest of the range
+ */
+interface OverviewSource {
+  scope: Prisma.Sql
+  where: Prisma.Sql
+  facts: Prisma.Sql
+}
+
+interface SummaryRow {
+  totalTransactions: number
+  successfulTransactions: number
+  totalVolumeUSD: number
+}
+
+type SummaryTotals = Pick<
+  AnalyticsSummary,
+  'totalTransactions' | 'totalVolumeUSD' | 'activeUsers' | 'successRate'
+>
+
+interface NetworkRow {
+  network: string
+  transactionCount: number
+  totalVolumeUSD: number
+  totalGasFeeUSD: number
+}
+
+interface PeriodRow {
+  periodStart: Date
+  periodEnd: Date
+  totalTransactions: number
+  successfulTransactions: number
+  failedTransactions: number
+  pendingTransactions: number
+  activeUsers: number
+  newUsers: number
+  activeMerchants: number
+  merchantPayments: number
+  merchantVolume: number
+  averageConfirmationTime: number
+  totalGasFees: number
+  totalPlatformFees: number
+}
+
+interface PeriodCurrencyRow {
+  periodStart: Date
+  currency: string
+  amount: number
+}
+
+interface PeriodTokenRow {
+  periodStart: Date
+  symbol: string
+  amount: string
+  usdValue: number
+}
+
+interface PeriodNetworkRow {
+  periodStart: Date
+  network: string
+  transactions: number
+  volume: number
+}
+
+// Scope columns that can be turned into SQL (see getTransactionScope)
+const SCOPE_COLUMNS = {
+  userId: Prisma.sql`"userId"`,
+  merchantId: Prisma.sql`"merchantId"`,
+} as const
+
+// Scope columns the rollup tables are keyed by
+const ROLLUP_SCOPE_COLUMNS: string[] = ['merchantId']
+
+/**
+ * SQL condition equivalent to a transaction scope
+ * Only equality on userId or merchantId is supported, which covers every scope the guards return
+ */
+function toScopeSql(scope: Prisma.TransactionWhereInput): Prisma.Sql {
+  const conditions = Object.entries(scope).map(([key, value]) => {
+    if (!(key in SCOPE_COLUMNS) || typeof value !== 'string') {
+      throw new Error(`Unsupported analytics scope: ${key}`)
+    }
+    return Prisma.sql`${SCOPE_COLUMNS[key as keyof typeof SCOPE_COLUMNS]} = ${value}`
+  })
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`
+}
+
+/**
+ * Start of the bucket a UTC timestamp column falls in, as an instant
+ * Timestamps are stored in UTC; they are truncated in the requested time zone
+ */
+function toBucketSql({ granularity, timeZone }: OverviewBuckets, column: Prisma.Sql): Prisma.Sql {
+  const { unit } = GRANULARITY_INTERVALS[granularity]
+  return Prisma.sql`(date_trunc(${unit}, ${column} AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone}) AT TIME ZONE ${timeZone})`
+}
+
+function toPercent(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0
+}
+
+/**
+ * Compare a value with its value in the comparison period
+ */
+function toMetricChange(current: number, previous: number): MetricChange {
+  return {
+    previous,
+    change: current - previous,
+    changePercent: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null,
+  }
+}
+
+function toTimeRangeSql(range: OverviewRange): Prisma.Sql {
+  return Prisma.sql`"timestamp" >= ${range.startDate} AND "timestamp" <= ${range.endDate}`
+}
+
+/**
+ * UTC offset of a time zone at a moment, in minutes
+ */
+function getOffsetMinutes(timeZone: string, date: Date): number {
+  const offset = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(date)
+    .find((part) => part.type === 'timeZoneName')?.value
+  const match = /GMT([+-])(\d{2}):(\d{2})/.exec(offset ?? '')
+  if (!match) return 0 // "GMT"
+
+  return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]))
+}
+
+/**
+ * Whether hourly rollups line up with the time zone's hours throughout the range
+ * Checked weekly, which catches the half-hour zones (India, Newfoundland) and DST changes
+ */
+function hasWholeHourOffsets(timeZone: string, range: OverviewRange): boolean {
+  const week = 7 * 24 * 60 * 60 * 1000
+  for (let time = range.startDate.getTime(); time < range.endDate.getTime() + week; time += week) {
+    const date = new Date(Math.min(time, range.endDate.getTime()))
+    if (getOffsetMinutes(timeZone, date) % 60 !== 0) return false
+  }
+  return true
+}
+
+/**
+ * Rollup tables usable for an overview, coarsest first
+ * Rollups are not keyed by user, and daily rollups are UTC days
+ */
+function getUsableRollups(
+  scope: Prisma.TransactionWhereInput,
+  range: OverviewRange,
+  buckets: OverviewBuckets
+): RollupTable[] {
+  if (Object.keys(scope).some((key) => !ROLLUP_SCOPE_COLUMNS.includes(key))) return []
+  if (!hasWholeHourOffsets(buckets.timeZone, range)) return []
+
+  const isUtc = new Intl.DateTimeFormat('en-US', { timeZone: buckets.timeZone })
+    .resolvedOptions().timeZone === 'UTC'
+  return isUtc && buckets.granularity !== 'hourly' ? ['daily', 'hourly'] : ['hourly']
+}
+
+/**
+ * Grouped totals for a range: whole periods from the coarsest usable rollup, the uneven
+ * edges from the next one down and finally from the transactions table
+ */
+function toFactsSql(
+  scope: Prisma.TransactionWhereInput,
+  range: OverviewRange,
+  buckets: OverviewBuckets
+): Prisma.Sql {
+  const scopeSql = toScopeSql(scope)
+  const bucket = toBucketSql(buckets, Prisma.sql`"timestamp"`)
+  const parts: Prisma.Sql[] = []
+
+  // [start, end), or [start, end] for the segment ending the range
+  const addSegment = (rollups: RollupTable[], start: number, end: number, isLast: boolean) => {
+    if (start > end || (start === end && !isLast)) return
+
+    const [rollup, ...finer] = rollups
+    if (rollup) {
+      const { table, periodMs } = ROLLUP_TABLES[rollup]
+      const wholeStart = Math.ceil(start / periodMs) * periodMs
+      const wholeEnd = Math.floor(end / periodMs) * periodMs
+
+      if (wholeStart < wholeEnd) {
+        parts.push(Prisma.sql`
+          SELECT
+            "periodStart" AS "at", "network", "tokenSymbol", "type", "status", "merchantId", "fiatCurrency",
+            "transactionCount", "tokenAmount", "fiatAmount", "volumeUSD", "gasFeeUSD", "platformFeeUSD"
+          FROM ${table}
+          WHERE "periodStart" >= ${new Date(wholeStart)} AND "periodStart" < ${new Date(wholeEnd)}
+            AND ${scopeSql}
+        `)
+        addSegment(finer, start, wholeStart, false)
+        addSegment(finer, wholeEnd, end, isLast)
+        return
+      }
+      return addSegment(finer, start, end, isLast)
+    }
+
+    // Transactions grouped straight into their final bucket
+    const endCondition = isLast
+      ? Prisma.sql`"timestamp" <= ${new Date(end)}`
+      : Prisma.sql`"timestamp" < ${new Date(end)}`
+    parts.push(Prisma.sql`
+      SELECT
+        (${bucket} AT TIME ZONE 'UTC') AS "at",
+        "network",
+        "fromTokenSymbol" AS "tokenSymbol",
+        "type",
+        "status",
+        COALESCE("merchantId", '') AS "merchantId",
+        COALESCE("toFiatCurrency", '') AS "fiatCurrency",
+        COUNT(*)::int AS "transactionCount",
+        SUM(${TOKEN_AMOUNT_SQL}) AS "tokenAmount",
+        COALESCE(SUM("toFiatAmount"), 0) AS "fiatAmount",
+        SUM(${VOLUME_USD_SQL}) AS "volumeUSD",
+        SUM("gasFeeUSD") AS "gasFeeUSD",
+        COALESCE(SUM("platformFeeUSD"), 0) AS "platformFeeUSD"
+      FROM "transactions"
+      WHERE "timestamp" >= ${new Date(start)} AND ${endCondition} AND ${scopeSql}
+      GROUP BY 1, 2, 3, 4, 5, 6, 7
+    `)
+  }
+
+  addSegment(
+    getUsableRollups(scope, range, buckets),
+    range.startDate.getTime(),
+    range.endDate.getTime(),
+    true
+  )
+
+  return Prisma.join(parts, ' UNION ALL ')
+}
+
+function toOverviewSource(
+  scope: Prisma.TransactionWhereInput,
+  range: OverviewRange,
+  buckets: OverviewBuckets
+): OverviewSource {
+  return {
+    scope: toScopeSql(scope),
+    where: Prisma.sql`${toTimeRangeSql(range)} AND ${toScopeSql(scope)}`,
+    facts: toFactsSql(scope, range, buckets),
+  }
+}
+
+/**
+ * Resolve the period a range is compared with
+ * The previous window has the same length and ends just before the range starts
+ */
+export function getComparisonRange(range: OverviewRange, compareTo: CompareTo): OverviewRange {
+  if (compareTo === 'previous') {
+    const length = range.endDate.getTime() - range.startDate.getTime()
+    return {
+      startDate: new Date(range.startDate.getTime() - length - 1),
+      endDate: new Date(range.startDate.getTime() - 1),
+    }
+  }
+
+  if (compareTo === 'previous_year') {
+    const startDate = new Date(range.startDate)
+    const endDate = new Date(range.endDate)
+    startDate.setUTCFullYear(startDate.getUTCFullYear() - 1)
+    endDate.setUTCFullYear(endDate.getUTCFullYear() - 1)
+    return { startDate, endDate }
+  }
+
+  return compareTo
+}
+
+/**
+ * Check a time zone name against the runtime's IANA database
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Dashboard overview for the transactions in a scope and time range
+ * Totals come from the hourly and daily rollups where the scope and time zone allow, so the
+ * work done grows with the number of periods rather than the number of transactions.
+ * Distinct user counts and confirmation times are always computed from transactions.
+ */
+export async function getDashboardOverview(
+  scope: Prisma.TransactionWhereInput,
+  range: OverviewRange,
+  buckets: OverviewBuckets,
+  compareTo: CompareTo = 'previous'
+): Promise<DashboardData> {
+  const comparisonRange = getComparisonRange(range, compareTo)
+  const source = toOverviewSource(scope, range, buckets)
+  const comparisonSource = toOverviewSource(scope, comparisonRange, buckets)
+
+  const [summary, networkStats, tokenStats, metrics, latest] = await Promise.all([
+    getSummary(source, comparisonSource, comparisonRange),
+    getNetworkStats(source),
+    getTokenStats(source),
+    getMetrics(source, range, buckets),
+    prisma.transaction.findMany({
+      where: { AND: [scope, { timestamp: { gte: range.startDate, lte: range.endDate } }] },
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: LATEST_TRANSACTIONS,
+    }),
+  ])
+
+  const networkDistribution: NetworkDistribution = Object.fromEntries(
+    networkStats.map((stat) => [
+      stat.network,
+      { transactions: stat.transactionCount, volume: stat.totalVolumeUSD },
+    ])
+  )
+
+  return {
+    summary,
+    metrics,
+    networkStats,
+    tokenStats,
+    transactions: latest.map(toAnalyticsTransaction),
+    networkDistribution,
+  }
+}
+
+/**
+ * Summary KPIs with their change from the comparison period
+ */
+async function getSummary(
+  source: OverviewSource,
+  comparisonSource: OverviewSource,
+  comparisonRange: OverviewRange
+): Promise<AnalyticsSummary> {
+  const [current, previous] = await Promise.all([
+    getSummaryTotals(source),
+    getSummaryTotals(comparisonSource),
+  ])
+
+  const comparison: AnalyticsComparison = {
+    periodStart: comparisonRange.startDate,
+    periodEnd: comparisonRange.endDate,
+    totalTransactions: toMetricChange(current.totalTransactions, previous.totalTransactions),
+    totalVolumeUSD: toMetricChange(current.totalVolumeUSD, previous.totalVolumeUSD),
+    activeUsers: toMetricChange(current.activeUsers, previous.activeUsers),
+    successRate: toMetricChange(current.successRate, previous.successRate),
+  }
+
+  return {
+    ...current,
+    // No growth figure when there is nothing to compare with
+    growthRate: comparison.totalTransactions.changePercent ?? undefined,
+    volumeGrowth: comparison.totalVolumeUSD.changePercent ?? undefined,
+    userGrowth: comparison.activeUsers.changePercent ?? undefined,
+    comparison,
+  }
+}
+
+async function getSummaryTotals({ where, facts }: OverviewSource): Promise<SummaryTotals> {
+  const [[totals], [users]] = await Promise.all([
+    prisma.$queryRaw<SummaryRow[]>`
+      SELECT
+        COALESCE(SUM("transactionCount"), 0)::int AS "totalTransactions",
+        COALESCE(SUM("transactionCount") FILTER (WHERE "status" = 'COMPLETED'), 0)::int AS "successfulTransactions",
+        COALESCE(SUM("volumeUSD"), 0)::float8 AS "totalVolumeUSD"
+      FROM (${facts}) AS "facts"
+    `,
+    prisma.$queryRaw<{ activeUsers: number }[]>`
+      SELECT COUNT(DISTINCT "userId")::int AS "activeUsers"
+      FROM "transactions"
+      WHERE ${where}
+    `,
+  ])
+
+  return {
+    totalTransactions: totals.totalTransactions,
+    totalVolumeUSD: totals.totalVolumeUSD,
+    activeUsers: users.activeUsers,
+    successRate: toPercent(totals.successfulTransactions, totals.totalTransactions),
+  }
+}
+
+async function getNetworkStats({ where, facts }: OverviewSource): Promise<NetworkStats[]> {
+  const [networks, users] = await Promise.all([
+    prisma.$queryRaw<NetworkRow[]>`
+      SELECT
+        "network",
+        SUM("transactionCount")::int AS "transactionCount",
+        COALESCE(SUM("volumeUSD"), 0)::float8 AS "totalVolumeUSD",
+        COALESCE(SUM("gasFeeUSD"), 0)::float8 AS "totalGasFeeUSD"
+      FROM (${facts}) AS "facts"
+      GROUP BY "network"
+      HAVING SUM("transactionCount") > 0
+      ORDER BY "transactionCount" DESC
+    `,
+    prisma.$queryRaw<{ network: string; uniqueUsers: number }[]>`
+      SELECT "network", COUNT(DISTINCT "userId")::int AS "uniqueUsers"
+      FROM "transactions"
+      WHERE ${where}
+      GROUP BY "network"
+    `,
+  ])
+
+  const usersByNetwork = new Map(users.map((row) => [row.network, row.uniqueUsers]))
+
+  return networks.map((row) => ({
+    network: row.network,
+    transactionCount: row.transactionCount,
+    totalVolumeUSD: row.totalVolumeUSD,
+    uniqueUsers: usersByNetwork.get(row.network) ?? 0,
+    avgGasFeeUSD: row.transactionCount > 0 ? row.totalGasFeeUSD / row.transactionCount : 0,
+  }))
+}
+
+async function getTokenStats({ facts }: OverviewSource): Promise<TokenStats[]> {
+  const tokens = await prisma.$queryRaw<Omit<TokenStats, 'avgTransactionSize'>[]>`
+    SELECT
+      "tokenSymbol" AS "symbol",
+      SUM("transactionCount")::int AS "transactionCount",
+      COALESCE(SUM("volumeUSD"), 0)::float8 AS "totalVolumeUSD"
+    FROM (${facts}) AS "facts"
+    GROUP BY "tokenSymbol"
+    HAVING SUM("transactionCount") > 0
+    ORDER BY "transactionCount" DESC
+  `
+
+  return tokens.map((token) => ({
+    ...token,
+    avgTransactionSize: token.transactionCount > 0 ? token.totalVolumeUSD / token.transactionCount : 0,
+  }))
+}
+
+/**
+ * Time series with one entry per bucket in the range, empty buckets included
+ * Buckets follow the time zone's calendar, so a daily bucket can be 23 or 25 hours long
+ */
+async function getMetrics(
+  { scope, where, facts }: OverviewSource,
+  range: OverviewRange,
+  buckets: OverviewBuckets
+): Promise<AnalyticsMetrics[]> {
+  const { unit, step } = GRANULARITY_INTERVALS[buckets.granularity]
+  const timeZone = buckets.timeZone
+  const factBucket = toBucketSql(buckets, Prisma.sql`"at"`)
+
+  const [periods, tokens, networks, currencies] = await Promise.all([
+    // Local bucket starts across the range; DISTINCT ON drops the duplicate a DST gap creates
+    // New users made their first transaction in scope during the bucket - account createdAt is when
+    // the wallet was first seen, which for backfilled history is the time of the backfill
+    prisma.$queryRaw<PeriodRow[]>`
+      WITH "buckets" AS (
+        SELECT DISTINCT ON ("periodStart") "periodStart", "periodEnd"
+        FROM (
+          SELECT
+            "localStart" AT TIME ZONE ${timeZone} AS "periodStart",
+            ("localStart" + ${step}::interval) AT TIME ZONE ${timeZone} AS "periodEnd"
+          FROM generate_series(
+            date_trunc(${unit}, ${range.startDate}::timestamptz AT TIME ZONE ${timeZone}),
+            ${range.endDate}::timestamptz AT TIME ZONE ${timeZone},
+            ${step}::interval
+          ) AS "localStart"
+        ) AS "series"
+        ORDER BY "periodStart", "periodEnd" DESC
+      ),
+      "totals" AS (
+        SELECT
+          ${factBucket} AS "periodStart",
+          SUM("transactionCount") AS "totalTransactions",
+          SUM("transactionCount") FILTER (WHERE "status" = 'COMPLETED') AS "successfulTransactions",
+          SUM("transactionCount") FILTER (WHERE "status" = 'FAILED') AS "failedTransactions",
+          SUM("transactionCount") FILTER (WHERE "status" IN ('PENDING', 'CONFIRMED')) AS "pendingTransactions",
+          COUNT(DISTINCT NULLIF("merchantId", '')) FILTER (WHERE "transactionCount" > 0) AS "activeMerchants",
+          SUM("transactionCount") FILTER (WHERE "merchantId" <> '' AND "type" = 'PAYMENT') AS "merchantPayments",
+          SUM("volumeUSD") FILTER (WHERE "merchantId" <> '' AND "type" = 'PAYMENT') AS "merchantVolume",
+          SUM("gasFeeUSD") AS "totalGasFees",
+          SUM("platformFeeUSD") AS "totalPlatformFees"
+        FROM (${facts}) AS "facts"
+        GROUP BY 1
+      ),
+      "firstTransactions" AS (
+        SELECT "userId", MIN("timestamp") AS "firstAt"
+        FROM "transactions"
+        WHERE ${scope} AND "userId" IN (SELECT "userId" FROM "transactions" WHERE ${where})
+        GROUP BY "userId"
+      ),
+      "people" AS (
+        SELECT
+          ${toBucketSql(buckets, Prisma.sql`t."timestamp"`)} AS "periodStart",
+          COUNT(DISTINCT t."userId") AS "activeUsers",
+          COUNT(DISTINCT t."userId") FILTER (
+            WHERE ${toBucketSql(buckets, Prisma.sql`f."firstAt"`)} = ${toBucketSql(buckets, Prisma.sql`t."timestamp"`)}
+          ) AS "newUsers",
+          AVG(EXTRACT(EPOCH FROM t."finalizedAt" - t."timestamp")) AS "averageConfirmationTime"
+        FROM (SELECT * FROM "transactions" WHERE ${where}) AS t
+        JOIN "firstTransactions" f ON f."userId" = t."userId"
+        GROUP BY 1
+      )
+      SELECT
+        b."periodStart",
+        b."periodEnd",
+        COALESCE(totals."totalTransactions", 0)::int AS "totalTransactions",
+        COALESCE(totals."successfulTransactions", 0)::int AS "successfulTransactions",
+        COALESCE(totals."failedTransactions", 0)::int AS "failedTransactions",
+        COALESCE(totals."pendingTransactions", 0)::int AS "pendingTransactions",
+        COALESCE(people."activeUsers", 0)::int AS "activeUsers",
+        COALESCE(people."newUsers", 0)::int AS "newUsers",
+        COALESCE(totals."activeMerchants", 0)::int AS "activeMerchants",
+        COALESCE(totals."merchantPayments", 0)::int AS "merchantPayments",
+        COALESCE(totals."merchantVolume", 0)::float8 AS "merchantVolume",
+        COALESCE(people."averageConfirmationTime", 0)::float8 AS "averageConfirmationTime",
+        COALESCE(totals."totalGasFees", 0)::float8 AS "totalGasFees",
+        COALESCE(totals."totalPlatformFees", 0)::float8 AS "totalPlatformFees"
+      FROM "buckets" b
+      LEFT JOIN "totals" ON totals."periodStart" = b."periodStart"
+      LEFT JOIN "people" ON people."periodStart" = b."periodStart"
+      ORDER BY b."periodStart"
+    `,
+    prisma.$queryRaw<PeriodTokenRow[]>`
+      SELECT
+        ${factBucket} AS "periodStart",
+        "tokenSymbol" AS "symbol",
+        SUM("tokenAmount")::text AS "amount",
+        COALESCE(SUM("volumeUSD"), 0)::float8 AS "usdValue"
+      FROM (${facts}) AS "facts"
+      GROUP BY 1, 2
+      HAVING SUM("transactionCount") > 0
+    `,
+    prisma.$queryRaw<PeriodNetworkRow[]>`
+      SELECT
+        ${factBucket} AS "periodStart",
+        "network",
+        SUM("transactionCount")::int AS "transactions",
+        COALESCE(SUM("volumeUSD"), 0)::float8 AS "volume"
+      FROM (${facts}) AS "facts"
+      GROUP BY 1, 2
+      HAVING SUM("transactionCount") > 0
+    `,
+    prisma.$queryRaw<PeriodCurrencyRow[]>`
+      SELECT
+        ${factBucket} AS "periodStart",
+        "fiatCurrency" AS "currency",
+        COALESCE(SUM("fiatAmount"), 0)::float8 AS "amount"
+      FROM (${facts}) AS "facts"
+      WHERE "type" = 'CONVERSION' AND "fiatCurrency" <> ''
+      GROUP BY 1, 2
+      HAVING SUM("transactionCount") > 0
+    `,
+  ])
+
+  const volumeByPeriod = new Map<number, VolumeData>()
+  for (const row of tokens) {
+    const volume = volumeByPeriod.get(row.periodStart.getTime()) ?? {}
+    volume[row.symbol] = { amount: row.amount, usdValue: row.usdValue }
+    volumeByPeriod.set(row.periodStart.getTime(), volume)
+  }
+
+  const networksByPeriod = new Map<number, NetworkDistribution>()
+  for (const row of networks) {
+    const distribution = networksByPeriod.get(row.periodStart.getTime()) ?? {}
+    distribution[row.network] = { transactions: row.transactions, volume: row.volume }
+    networksByPeriod.set(row.periodStart.getTime(), distribution)
+  }
+
+  const conversionsByPeriod = new Map<number, Record<string, number>>()
+  for (const row of currencies) {
+    const conversions = conversionsByPeriod.get(row.periodStart.getTime()) ?? {}
+    conversions[row.currency] = row.amount
+    conversionsByPeriod.set(row.periodStart.getTime(), conversions)
+  }
+
+  return periods.map((period) => {
+    const key = period.periodStart.getTime()
+    return {
+      id: `${buckets.granularity}:${period.periodStart.toISOString()}`,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      granularity: buckets.granularity,
+      totalTransactions: period.totalTransactions,
+      successfulTransactions: period.successfulTransactions,
+      failedTransactions: period.failedTransactions,
+      pendingTransactions: period.pendingTransactions,
+      totalVolume: volumeByPeriod.get(key) ?? {},
+      conversionVolume: conversionsByPeriod.get(key) ?? {},
+      activeUsers: period.activeUsers,
+      newUsers: period.newUsers,
+      returningUsers: period.activeUsers - period.newUsers,
+      activeMerchants: period.activeMerchants,
+      merchantPayments: period.merchantPayments,
+      merchantVolume: period.merchantVolume,
+      networkDistribution: networksByPeriod.get(key) ?? {},
+      averageConfirmationTime: period.averageConfirmationTime,
+      successRate: toPercent(period.successfulTransactions, period.totalTransactions),
+      averageGasFee: period.totalTransactions > 0 ? period.totalGasFees / period.totalTransactions : 0,
+      totalPlatformFees: period.totalPlatformFees,
+      totalGasFees: period.totalGasFees,
+      netRevenue: period.totalPlatformFees, // Gas is paid by the sender, not the platform
+    }
+  })
+}
+
+/**
+ * Database transaction in the dashboard's Transaction shape
+ */
+function toAnalyticsTransaction(transaction: Transaction): AnalyticsTransaction {
+  return {
+    id: transaction.id,
+    userId: transaction.userId,
+    txHash: transaction.txHash,
+    blockNumber: Number(transaction.blockNumber),
+    timestamp: transaction.timestamp,
+    type: transaction.type.toLowerCase() as AnalyticsTransactionType,
+    status: transaction.status.toLowerCase() as AnalyticsTransactionStatus,
+    fromToken: {
+      symbol: transaction.fromTokenSymbol,
+      address: transaction.fromTokenAddress,
+      amount: transaction.fromTokenAmount,
+      decimals: transaction.fromTokenDecimals,
+    },
+    toFiat:
+      transaction.toFiatCurrency && transaction.toFiatAmount
+        ? {
+            currency: transaction.toFiatCurrency,
+            amount: transaction.toFiatAmount.toNumber(),
+            exchangeRate: transaction.exchangeRate?.toNumber() ?? 0,
+          }
+        : undefined,
+    network: transaction.network,
+    chainId: transaction.chainId,
+    fromAddress: transaction.fromAddress,
+    toAddress: transaction.toAddress,
+    merchantId: transaction.merchantId ?? undefined,
+    merchantName: transaction.merchantName ?? undefined,
+    gasFee: {
+      amount: transaction.gasFeeWei,
+      token: findChainConfig(transaction.network)?.nativeSymbol ?? 'ETH',
+    },
+    platformFee: transaction.platformFeeUSD?.toNumber(),
+    metadata: {
+      failureReason: transaction.errorMessage ?? undefined,
+    },
+  }
+}
@@ -0,0 +1,27 @@
+// Report Definitions
+// Report types and export formats offered on the reports page, shared with the export API
+
+import type { Permission } from '@/lib/auth/roles'
+
+export const REPORT_TYPES = [
+  'transaction_summary',
+  'volume_report',
+  'user_activity',
+  'merchant_report',
+  'network_performance',
+] as const
+
+export type ReportType = (typeof REPORT_TYPES)[number]
+
+export const REPORT_FORMATS = ['pdf', 'csv', 'excel'] as const
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number]
+
+// Permission each report needs in addition to exportReports
+export const REPORT_PERMISSIONS: Record<ReportType, Permission | null> = {
+  transaction_summary: null,
+  volume_report: null,
+  user_activity: 'viewAllUsers',
+  merchant_report: 'viewMerchantData',
+  network_performance: 'viewAllTransactions',
+}
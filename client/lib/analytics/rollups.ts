@@ -0,0 +1,149 @@
+// Transaction Rollups
+// Hourly and daily transaction totals, kept up to date as transactions are written
+
+import { Prisma, type TransactionStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export type RollupTable = 'hourly' | 'daily'
+
+// Table and date_trunc unit of each rollup
+export const ROLLUP_TABLES: Record<RollupTable, { table: Prisma.Sql; unit: string; periodMs: number }> = {
+  hourly: { table: Prisma.raw('"transaction_rollups_hourly"'), unit: 'hour', periodMs: HOUR_MS },
+  daily: { table: Prisma.raw('"transaction_rollups_daily"'), unit: 'day', periodMs: DAY_MS },
+}
+
+// Key and measure columns, in insert order
+const ROLLUP_COLUMNS = Prisma.raw(
+  '"periodStart", "network", "tokenSymbol", "type", "status", "merchantId", "fiatCurrency", ' +
+    '"transactionCount", "tokenAmount", "fiatAmount", "volumeUSD", "gasFeeUSD", "platformFeeUSD", "updatedAt"'
+)
+
+// Token amounts are stored in the smallest unit; decimals can differ per network
+export const TOKEN_AMOUNT_SQL = Prisma.sql`CAST("fromTokenAmount" AS NUMERIC) / POWER(10::numeric, "fromTokenDecimals")`
+
+// USD value priced when the transaction was stored; older rows without one count their fiat amount only if it is in USD
+export const VOLUME_USD_SQL = Prisma.sql`COALESCE("volumeUSD", CASE WHEN "toFiatCurrency" = 'USD' THEN "toFiatAmount" END, 0)`
+
+export interface RecomputeSummary {
+  startDate: Date
+  endDate: Date
+  days: number
+  transactions: number
+}
+
+type Database = Prisma.TransactionClient | typeof prisma
+
+/**
+ * Move a transaction between rollup rows when it is stored (from = null) or its status changes
+ * Run it in the same database transaction as the write so totals never drift
+ */
+export async function applyRollupChange(
+  db: Database,
+  transactionId: string,
+  from: TransactionStatus | null,
+  to: TransactionStatus
+) {
+  for (const { table, unit } of Object.values(ROLLUP_TABLES)) {
+    if (from) {
+      await addToRollup(db, table, unit, transactionId, from, -1)
+    }
+    await addToRollup(db, table, unit, transactionId, to, 1)
+  }
+}
+
+async function addToRollup(
+  db: Database,
+  table: Prisma.Sql,
+  unit: string,
+  transactionId: string,
+  status: TransactionStatus,
+  sign: 1 | -1
+) {
+  await db.$executeRaw`
+    INSERT INTO ${table} AS r (${ROLLUP_COLUMNS})
+    SELECT
+      date_trunc(${unit}, "timestamp"),
+      "network",
+      "fromTokenSymbol",
+      "type",
+      CAST(${status} AS "TransactionStatus"),
+      COALESCE("merchantId", ''),
+      COALESCE("toFiatCurrency", ''),
+      CAST(${sign} AS INTEGER),
+      CAST(${sign} AS NUMERIC) * ${TOKEN_AMOUNT_SQL},
+      CAST(${sign} AS NUMERIC) * COALESCE("toFiatAmount", 0),
+      CAST(${sign} AS NUMERIC) * ${VOLUME_USD_SQL},
+      CAST(${sign} AS NUMERIC) * "gasFeeUSD",
+      CAST(${sign} AS NUMERIC) * COALESCE("platformFeeUSD", 0),
+      NOW()
+    FROM "transactions"
+    WHERE "id" = ${transactionId}
+    ON CONFLICT ("periodStart", "network", "tokenSymbol", "type", "status", "merchantId", "fiatCurrency")
+    DO UPDATE SET
+      "transactionCount" = r."transactionCount" + EXCLUDED."transactionCount",
+      "tokenAmount" = r."tokenAmount" + EXCLUDED."tokenAmount",
+      "fiatAmount" = r."fiatAmount" + EXCLUDED."fiatAmount",
+      "volumeUSD" = r."volumeUSD" + EXCLUDED."volumeUSD",
+      "gasFeeUSD" = r."gasFeeUSD" + EXCLUDED."gasFeeUSD",
+      "platformFeeUSD" = r."platformFeeUSD" + EXCLUDED."platformFeeUSD",
+      "updatedAt" = NOW()
+  `
+}
+
+/**
+ * Rebuild both rollups from the transactions table for whole UTC days covering a range
+ * Each day is rebuilt in its own database transaction
+ */
+export async function recomputeRollups(
+  range: { startDate: Date; endDate: Date },
+  db: typeof prisma = prisma
+): Promise<RecomputeSummary> {
+  const startDate = new Date(Math.floor(range.startDate.getTime() / DAY_MS) * DAY_MS)
+  const endDate = new Date(Math.ceil(range.endDate.getTime() / DAY_MS) * DAY_MS)
+  const summary: RecomputeSummary = { startDate, endDate, days: 0, transactions: 0 }
+
+  for (let day = startDate.getTime(); day < endDate.getTime(); day += DAY_MS) {
+    const dayStart = new Date(day)
+    const dayEnd = new Date(day + DAY_MS)
+
+    summary.transactions += await db.$transaction(async (tx) => {
+      for (const { table, unit } of Object.values(ROLLUP_TABLES)) {
+        await tx.$executeRaw`
+          DELETE FROM ${table} WHERE "periodStart" >= ${dayStart} AND "periodStart" < ${dayEnd}
+        `
+        await tx.$executeRaw`
+          INSERT INTO ${table} (${ROLLUP_COLUMNS})
+          SELECT
+            date_trunc(${unit}, "timestamp"),
+            "network",
+            "fromTokenSymbol",
+            "type",
+            "status",
+            COALESCE("merchantId", ''),
+            COALESCE("toFiatCurrency", ''),
+            COUNT(*)::int,
+            SUM(${TOKEN_AMOUNT_SQL}),
+            COALESCE(SUM("toFiatAmount"), 0),
+            SUM(${VOLUME_USD_SQL}),
+            SUM("gasFeeUSD"),
+            COALESCE(SUM("platformFeeUSD"), 0),
+            NOW()
+          FROM "transactions"
+          WHERE "timestamp" >= ${dayStart} AND "timestamp" < ${dayEnd}
+          GROUP BY 1, 2, 3, 4, 5, 6, 7
+        `
+      }
+
+      return await tx.transaction.count({
+        where: { timestamp: { gte: dayStart, lt: dayEnd } },
+      })
+    })
+
+    summary.days++
+  }
+
+  return summary
+}
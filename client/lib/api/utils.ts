@@ -3,6 +3,31 @@
 
 import { NextResponse } from 'next/server'
 import { ZodError } from 'zod'
+import crypto from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { headers } from 'next/headers'
+import { auth } from '@/lib/auth'
+import {
+  authenticateApiKey,
+  getBearerApiKey,
+  type ApiKeyScope,
+  type AuthenticatedUser,
+} from '@/lib/auth/apiKeys'
+
+/**
+ * Error carrying an HTTP status, e.g. from route guards
+ * Headers (e.g. Retry-After) are added to the error response
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public headers?: Record<string, string>
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
 
 /**
  * Standard success response
@@ -23,7 +48,8 @@ export function successResponse<T>(data: T, status: number = 200) {
 export function errorResponse(
   message: string,
   status: number = 400,
-  errors?: any
+  errors?: any,
+  headers?: HeadersInit
 ) {
   return NextResponse.json(
     {
@@ -31,14 +57,58 @@ export function errorResponse(
       error: message,
       errors,
     },
-    { status }
+    { status, headers }
   )
 }
 
+/**
+ * CSV file download response
+ * Values are quoted as needed, and cells that start like a formula are prefixed with '
+ * so spreadsheet apps don't evaluate user-controlled text
+ */
+export function csvResponse(
+  filename: string,
+  columns: string[],
+  rows: Record<string, unknown>[]
+) {
+  const lines = [columns, ...rows.map((row) => columns.map((column) => row[column]))].map(
+    (values) => values.map(toCsvCell).join(',')
+  )
+
+  return new NextResponse(lines.join('\r\n'), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value)
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
 /**
  * Handle API errors consistently
  */
 export function handleApiError(error: unknown) {
+  // Expected errors (auth, not found) carry their own status
+  if (error instanceof ApiError) {
+    return errorResponse(error.message, error.status, undefined, error.headers)
+  }
+
   console.error('API Error:', error)
 
   // Zod validation errors
@@ -46,7 +116,7 @@ export function handleApiError(error: unknown) {
     return errorResponse(
       'Validation failed',
       400,
-      error.errors.map((e) => ({
+      error.issues.map((e) => ({
         field: e.path.join('.'),
         message: e.message,
       }))
@@ -67,12 +137,32 @@ export function handleApiError(error: unknown) {
 }
 
 /**
- * Require authentication middleware
+ * Get the signed-in user from the SIWE session, or the owner of a merchant API key
+ * API keys are only accepted when the route names a scope the key was granted.
+ * Returns null if there is no session or key, or the user no longer exists.
  */
-export async function requireAuth(request: Request) {
-  // TODO: Implement after NextAuth setup
-  // For now, return null (will be replaced with actual user)
-  return null
+export async function requireAuth(scope?: ApiKeyScope): Promise<AuthenticatedUser | null> {
+  const session = await auth()
+  if (session?.user?.id) {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    })
+    return user ? { ...user, apiKey: null } : null
+  }
+
+  const key = getBearerApiKey((await headers()).get('authorization'))
+  if (!key) {
+    return null
+  }
+
+  const user = await authenticateApiKey(key)
+  if (user && !(scope && user.apiKey?.scopes.includes(scope))) {
+    throw new ApiError(
+      scope ? `API key is missing scope: ${scope}` : 'API keys cannot access this endpoint',
+      403
+    )
+  }
+  return user
 }
 
 /**
@@ -81,3 +171,20 @@ export async function requireAuth(request: Request) {
 export function hasRole(userRole: string, requiredRoles: string[]) {
   return requiredRoles.includes(userRole)
 }
+
+/**
+ * Check the shared admin token used by operational endpoints (scripts, cron jobs)
+ * Header: Authorization: Bearer <ADMIN_API_SECRET>
+ */
+export function hasAdminToken(request: Request): boolean {
+  const secret = process.env.ADMIN_API_SECRET
+  if (!secret) return false
+
+  const header = request.headers.get('authorization')
+  if (!header?.startsWith('Bearer ')) return false
+
+  const token = Buffer.from(header.slice('Bearer '.length))
+  const expected = Buffer.from(secret)
+
+  return token.length === expected.length && crypto.timingSafeEqual(token, expected)
+}
@@ -0,0 +1,95 @@
+// Audit Log
+// Append-only record of who changed what for admin actions and other sensitive updates
+
+import { Prisma, type User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+export type AuditActor = Pick<User, 'id' | 'walletAddress'>
+
+// Reverse proxies in front of the app, each appending the address it received from to X-Forwarded-For
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT || 1)
+
+export interface AuditEntry {
+  actor: AuditActor | null // Null for system actions and the admin token
+  action: string
+  entityType: string
+  entityId: string
+  changes?: AuditChanges
+  metadata?: Record<string, unknown>
+  request?: Request // Source of the IP address and user agent
+}
+
+/**
+ * Write an audit record
+ * Pass the transaction client to record the change atomically with the update.
+ * Records are never updated or deleted - this module only appends and reads.
+ */
+export async function recordAudit(
+  entry: AuditEntry,
+  db: Prisma.TransactionClient = prisma
+) {
+  return await db.auditLog.create({
+    data: {
+      actorId: entry.actor?.id ?? null,
+      actorAddress: entry.actor?.walletAddress ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      changes: entry.changes as Prisma.InputJsonValue | undefined,
+      metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+      ...(entry.request ? getRequestContext(entry.request) : {}),
+    },
+  })
+}
+
+/**
+ * Client IP and user agent of a request
+ * The client sets the leading x-forwarded-for entries itself, so the address is the one our
+ * outermost trusted proxy appended: the TRUSTED_PROXY_COUNT-th entry from the right
+ */
+export function getRequestContext(request: Request): {
+  ipAddress: string | null
+  userAgent: string | null
+} {
+  return {
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+  }
+}
+
+function getClientIp(request: Request): string | null {
+  if (TRUSTED_PROXY_COUNT > 0) {
+    const hops = (request.headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean)
+    if (hops.length > 0) {
+      return hops[Math.max(0, hops.length - TRUSTED_PROXY_COUNT)]
+    }
+  }
+
+  return request.headers.get('x-real-ip')
+}
+
+/**
+ * Field-level diff between a record and an update, limited to the updated fields
+ * Returns an empty object if nothing actually changes
+ */
+export function diffChanges<T extends object>(before: T, update: Partial<T>): AuditChanges {
+  const changes: AuditChanges = {}
+
+  for (const [field, to] of Object.entries(update)) {
+    if (to === undefined) continue
+
+    const from = before[field as keyof T]
+    // Arrays (e.g. permission lists) are compared by value
+    const changed = Array.isArray(to) ? JSON.stringify(from) !== JSON.stringify(to) : from !== to
+    if (changed) {
+      changes[field] = { from: from ?? null, to }
+    }
+  }
+
+  return changes
+}
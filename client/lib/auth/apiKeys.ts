@@ -0,0 +1,98 @@
+// Merchant API Keys
+// Generation, hashing and verification of server-to-server API keys
+
+import crypto from 'crypto'
+import type { User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const API_KEY_SCOPES = [
+  'transactions:read',
+  'analytics:read',
+  'payment_intents:create',
+] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+// Keys look like "kelo_<43 base64url chars>"; the prefix tells them apart from the admin token
+const API_KEY_PREFIX = 'kelo_'
+
+// Characters of the key stored in clear so users can tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12
+
+// lastUsedAt is written at most once per interval per key
+const LAST_USED_INTERVAL_MS = 60 * 1000
+
+// Key the request was authenticated with
+export interface ApiKeyContext {
+  id: string
+  merchantId: string
+  scopes: string[]
+}
+
+// Signed-in user, or the owner of the API key used for the request
+export type AuthenticatedUser = User & { apiKey: ApiKeyContext | null }
+
+/**
+ * Generate a new key
+ * Only the hash and display prefix are stored; the key itself is shown once
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) }
+}
+
+/**
+ * SHA-256 of a key - keys are random, so a slow hash isn't needed
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Extract an API key from an Authorization header
+ * Header: Authorization: Bearer kelo_...
+ */
+export function getBearerApiKey(header: string | null): string | null {
+  if (!header?.startsWith('Bearer ')) return null
+
+  const token = header.slice('Bearer '.length).trim()
+  return token.startsWith(API_KEY_PREFIX) ? token : null
+}
+
+/**
+ * Look up the owner of an API key
+ * Returns null for unknown, revoked or expired keys, and for keys whose owner
+ * no longer belongs to the key's merchant
+ */
+export async function authenticateApiKey(key: string): Promise<AuthenticatedUser | null> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { user: true },
+  })
+
+  const now = new Date()
+  if (
+    !apiKey ||
+    apiKey.revokedAt ||
+    (apiKey.expiresAt && apiKey.expiresAt <= now) ||
+    apiKey.user.merchantId !== apiKey.merchantId
+  ) {
+    return null
+  }
+
+  await prisma.apiKey.updateMany({
+    where: {
+      id: apiKey.id,
+      OR: [
+        { lastUsedAt: null },
+        { lastUsedAt: { lt: new Date(now.getTime() - LAST_USED_INTERVAL_MS) } },
+      ],
+    },
+    data: { lastUsedAt: now },
+  })
+
+  return {
+    ...apiKey.user,
+    apiKey: { id: apiKey.id, merchantId: apiKey.merchantId, scopes: apiKey.scopes },
+  }
+}
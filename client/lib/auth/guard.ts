@@ -0,0 +1,83 @@
+// API Route Guards
+// Role and permission checks for API routes, using the user's stored role and permissions
+
+import { Prisma, UserRole, type User } from '@prisma/client'
+import { ApiError, requireAuth, hasRole, hasAdminToken } from '@/lib/api/utils'
+import { getUserPermissions, userHasPermission } from './permissions'
+import type { Permission } from './roles'
+import type { ApiKeyContext, ApiKeyScope, AuthenticatedUser } from './apiKeys'
+
+/**
+ * Require a signed-in user
+ * Pass a scope to also accept merchant API keys granted that scope
+ * Throws 401 if there is no session or key
+ */
+export async function requireUser(scope?: ApiKeyScope): Promise<AuthenticatedUser> {
+  const user = await requireAuth(scope)
+  if (!user) {
+    throw new ApiError('Authentication required', 401)
+  }
+  return user
+}
+
+/**
+ * Require a signed-in user with one of the given roles
+ * Throws 401 without a session and 403 for other roles
+ */
+export async function requireRole(roles: UserRole[]): Promise<AuthenticatedUser> {
+  const user = await requireUser()
+  if (!hasRole(user.role, roles)) {
+    throw new ApiError('Insufficient role', 403)
+  }
+  return user
+}
+
+/**
+ * Require a signed-in user who has a permission (from their role or a per-user grant)
+ * Pass a scope to also accept merchant API keys granted that scope instead of the permission
+ */
+export async function requirePermission(
+  permission: Permission,
+  scope?: ApiKeyScope
+): Promise<AuthenticatedUser> {
+  const user = await requireUser(scope)
+  if (!user.apiKey && !(await userHasPermission(user, permission))) {
+    throw new ApiError(`Missing permission: ${permission}`, 403)
+  }
+  return user
+}
+
+/**
+ * Operational endpoints accept the admin token (scripts, cron jobs) or a signed-in admin
+ * Returns the user, or null when the admin token was used
+ */
+export async function requireAdmin(request: Request): Promise<AuthenticatedUser | null> {
+  if (hasAdminToken(request)) {
+    return null
+  }
+  return await requireRole([UserRole.ADMIN])
+}
+
+/**
+ * Transactions a user may see
+ * API keys and merchants see their merchant's rows, staff with viewAllTransactions
+ * see everything, everyone else only their own transactions
+ */
+export async function getTransactionScope(
+  user: User & { apiKey?: ApiKeyContext | null }
+): Promise<Prisma.TransactionWhereInput> {
+  if (user.apiKey) {
+    return { merchantId: user.apiKey.merchantId }
+  }
+
+  const permissions = await getUserPermissions(user)
+  if (permissions.viewAllTransactions) {
+    return {}
+  }
+
+  if (user.role === UserRole.MERCHANT && user.merchantId) {
+    return { merchantId: user.merchantId }
+  }
+
+  return { userId: user.id }
+}
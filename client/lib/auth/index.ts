@@ -0,0 +1,62 @@
+// Authentication
+// NextAuth configuration with Sign-In with Ethereum as the credentials provider
+
+import NextAuth from 'next-auth'
+import Credentials from 'next-auth/providers/credentials'
+import { verifySiweLogin } from './siwe'
+
+export const { handlers, auth, signIn, signOut } = NextAuth({
+  // Credentials providers only support JWT sessions
+  session: { strategy: 'jwt', maxAge: 7 * 24 * 60 * 60 },
+  providers: [
+    Credentials({
+      id: 'siwe',
+      name: 'Ethereum',
+      credentials: {
+        message: { label: 'Message', type: 'text' },
+        signature: { label: 'Signature', type: 'text' },
+      },
+      async authorize(credentials, request) {
+        if (typeof credentials?.message !== 'string' || typeof credentials?.signature !== 'string') {
+          return null
+        }
+
+        const user = await verifySiweLogin(
+          { message: credentials.message, signature: credentials.signature },
+          getExpectedDomain(request)
+        )
+        if (!user) {
+          return null
+        }
+
+        return { id: user.id, walletAddress: user.walletAddress }
+      },
+    }),
+  ],
+  callbacks: {
+    jwt({ token, user }) {
+      if (user) {
+        token.sub = user.id
+        token.walletAddress = user.walletAddress
+      }
+      return token
+    },
+    session({ session, token }) {
+      if (token.sub) {
+        session.user.id = token.sub
+      }
+      if (token.walletAddress) {
+        session.user.walletAddress = token.walletAddress
+      }
+      return session
+    },
+  },
+})
+
+/**
+ * Domain SIWE messages must be signed for: the configured app URL, or the request's host
+ */
+function getExpectedDomain(request: Request): string {
+  const appUrl = process.env.AUTH_URL ?? process.env.NEXTAUTH_URL
+  return new URL(appUrl ?? request.url).host
+}
@@ -0,0 +1,52 @@
+// Effective Permissions
+// Resolves a user's permissions from the roles table plus per-user overrides
+
+import type { User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  isPermission,
+  toPermissionMap,
+  type Permission,
+  type RolePermissions,
+} from './roles'
+
+/**
+ * Permissions a user actually has
+ * Custom role if assigned, otherwise the built-in role's row (or its defaults if not seeded),
+ * then per-user grants and revocations on top
+ */
+export async function getUserPermissions(
+  user: Pick<User, 'id' | 'role' | 'customRoleId'>
+): Promise<RolePermissions> {
+  const [assignedRole, overrides] = await Promise.all([
+    user.customRoleId
+      ? prisma.role.findUnique({ where: { id: user.customRoleId } })
+      : prisma.role.findUnique({ where: { name: user.role } }),
+    prisma.userPermissionOverride.findMany({ where: { userId: user.id } }),
+  ])
+
+  const granted = new Set<Permission>(
+    assignedRole ? assignedRole.permissions.filter(isPermission) : DEFAULT_ROLE_PERMISSIONS[user.role]
+  )
+
+  for (const override of overrides) {
+    if (!isPermission(override.permission)) continue
+
+    if (override.granted) {
+      granted.add(override.permission)
+    } else {
+      granted.delete(override.permission)
+    }
+  }
+
+  return toPermissionMap(granted)
+}
+
+/**
+ * Check a single permission for a user
+ */
+export async function userHasPermission(user: User, permission: Permission): Promise<boolean> {
+  const permissions = await getUserPermissions(user)
+  return permissions[permission]
+}
@@ -0,0 +1,73 @@
+// Role Permissions
+// Permission keys and the default permission set of each built-in role
+
+import type { UserRole } from '@prisma/client'
+import { UserRole as DashboardRole } from '@/types/analytics'
+
+export const PERMISSIONS = [
+  'viewAllTransactions',
+  'viewAllUsers',
+  'viewAnalytics',
+  'viewMerchantData',
+  'exportReports',
+  'configureAlerts',
+  'manageUsers',
+  'manageTransactions',
+  'viewRealtime',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+export type RolePermissions = Record<Permission, boolean>
+
+// Default permissions of the built-in roles, seeded into the roles table
+// The database copy is authoritative once seeded (see lib/auth/permissions.ts)
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: [...PERMISSIONS],
+  OPERATIONS: [
+    'viewAllTransactions',
+    'viewAllUsers',
+    'viewAnalytics',
+    'viewMerchantData',
+    'exportReports',
+    'configureAlerts',
+    'manageTransactions',
+    'viewRealtime',
+  ],
+  GROWTH: ['viewAllTransactions', 'viewAllUsers', 'viewAnalytics', 'exportReports'],
+  MERCHANT: ['viewMerchantData', 'exportReports'],
+  USER: [],
+}
+
+/**
+ * Check if a string is a known permission key
+ */
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value)
+}
+
+/**
+ * Full permission map from a list of granted permissions
+ */
+export function toPermissionMap(granted: Iterable<string>): RolePermissions {
+  const grantedSet = new Set(granted)
+  return Object.fromEntries(
+    PERMISSIONS.map((permission) => [permission, grantedSet.has(permission)])
+  ) as RolePermissions
+}
+
+// Database roles (uppercase) to the dashboard's lowercase roles
+const DASHBOARD_ROLES: Record<UserRole, DashboardRole> = {
+  ADMIN: DashboardRole.ADMIN,
+  OPERATIONS: DashboardRole.OPERATIONS,
+  GROWTH: DashboardRole.GROWTH,
+  MERCHANT: DashboardRole.MERCHANT,
+  USER: DashboardRole.USER,
+}
+
+/**
+ * Convert a database role to the dashboard role enum
+ */
+export function toDashboardRole(role: UserRole): DashboardRole {
+  return DASHBOARD_ROLES[role]
+}
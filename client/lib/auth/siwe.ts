@@ -0,0 +1,114 @@
+// Sign-In with Ethereum
+// Nonce issuing and SIWE message verification for wallet login
+
+import { SiweMessage, generateNonce } from 'siwe'
+import { JsonRpcProvider } from 'ethers'
+import type { User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { findChainConfigById } from '@/lib/blockchain/chains'
+import { getRpcUrl } from '@/lib/blockchain/indexer'
+
+// Nonces are stored as verification tokens under this identifier
+const NONCE_IDENTIFIER = 'siwe-nonce'
+
+// How long a nonce can be used after it is issued
+const NONCE_TTL_MS = 10 * 60 * 1000
+
+export interface SiweCredentials {
+  message: string
+  signature: string
+}
+
+/**
+ * Issue a single-use nonce for a SIWE message
+ * Expired nonces are cleared first, so unused ones don't pile up
+ */
+export async function createSiweNonce(): Promise<{ nonce: string; expiresAt: Date }> {
+  await deleteExpiredSiweNonces()
+
+  const nonce = generateNonce()
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS)
+
+  await prisma.verificationToken.create({
+    data: { identifier: NONCE_IDENTIFIER, token: nonce, expires: expiresAt },
+  })
+
+  return { nonce, expiresAt }
+}
+
+/**
+ * Use up a nonce; returns false if it was never issued, already used or expired
+ */
+async function consumeSiweNonce(nonce: string): Promise<boolean> {
+  const deleted = await prisma.verificationToken.deleteMany({
+    where: { identifier: NONCE_IDENTIFIER, token: nonce, expires: { gt: new Date() } },
+  })
+  await deleteExpiredSiweNonces()
+  return deleted.count === 1
+}
+
+/**
+ * Delete nonces that expired without being used
+ */
+async function deleteExpiredSiweNonces() {
+  await prisma.verificationToken.deleteMany({
+    where: { identifier: NONCE_IDENTIFIER, expires: { lte: new Date() } },
+  })
+}
+
+/**
+ * Verify a signed SIWE message and return the wallet's user, creating it on first login
+ * Returns null for any invalid message so callers can't tell which check failed
+ */
+export async function verifySiweLogin(
+  credentials: SiweCredentials,
+  expectedDomain: string
+): Promise<User | null> {
+  let message: SiweMessage
+  try {
+    message = new SiweMessage(credentials.message)
+  } catch (error) {
+    console.error('Invalid SIWE message:', error)
+    return null
+  }
+
+  if (message.domain !== expectedDomain) {
+    console.warn(`⚠️ SIWE domain mismatch: ${message.domain} (expected ${expectedDomain})`)
+    return null
+  }
+
+  // Only chains the platform supports can be used to sign in
+  const chain = findChainConfigById(message.chainId)
+  if (!chain) {
+    console.warn(`⚠️ SIWE login from unsupported chain ${message.chainId}`)
+    return null
+  }
+
+  // Burn the nonce before checking the signature so a message can never be replayed
+  if (!(await consumeSiweNonce(message.nonce))) {
+    console.warn('⚠️ SIWE nonce is invalid, expired or already used')
+    return null
+  }
+
+  // The provider lets smart contract wallets (EIP-1271) verify as well
+  const result = await message.verify(
+    { signature: credentials.signature, domain: expectedDomain, nonce: message.nonce },
+    {
+      provider: new JsonRpcProvider(getRpcUrl(chain.network), chain.chainId, { staticNetwork: true }),
+      suppressExceptions: true,
+    }
+  )
+
+  if (!result.success) {
+    console.warn('⚠️ SIWE signature verification failed:', result.error?.type)
+    return null
+  }
+
+  const walletAddress = message.address.toLowerCase()
+
+  return await prisma.user.upsert({
+    where: { walletAddress },
+    update: {},
+    create: { walletAddress, role: 'USER' },
+  })
+}
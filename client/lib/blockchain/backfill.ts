@@ -0,0 +1,445 @@
+// Historical Backfill
+// Imports past transactions for wallets and contracts through the transaction processor
+
+import {
+  type Alchemy,
+  AssetTransfersCategory,
+  SortingOrder,
+  type AssetTransfersWithMetadataResult,
+} from 'alchemy-sdk'
+import { BackfillStatus, TransactionStatusSource, type BackfillCheckpoint } from '@prisma/client'
+import { type Address, type Hash, type PublicClient } from 'viem'
+import { prisma } from '@/lib/prisma'
+import { getAlchemyInstance, getChainId, getPublicClient, hasAlchemySupport } from './indexer'
+import { processTransaction, type ProcessTransactionInput, type TokenTransferInput } from './processor'
+
+export const BACKFILL_SOURCES = ['transfers-from', 'transfers-to', 'logs'] as const
+
+export type BackfillSource = (typeof BACKFILL_SOURCES)[number]
+
+export interface BackfillOptions {
+  network: string
+  addresses: string[]
+  fromBlock: number
+  toBlock?: number // Defaults to the latest block
+  sources?: BackfillSource[]
+}
+
+export interface BackfillSummary {
+  network: string
+  fromBlock: number
+  toBlock: number
+  checkpoints: ReturnType<typeof serializeCheckpoint>[]
+  running: ReturnType<typeof serializeCheckpoint>[] // Skipped because another run is still active
+}
+
+// Transfers fetched per getAssetTransfers page
+const TRANSFER_PAGE_SIZE = 100
+
+// Block range per getLogs request
+const LOG_BLOCK_CHUNK = 2000
+
+// A RUNNING checkpoint that hasn't advanced in this long is assumed abandoned
+const STALE_RUN_MS = 15 * 60 * 1000
+
+/**
+ * Thrown before any work starts when the requested backfill can't run
+ */
+export class InvalidBackfillError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidBackfillError'
+  }
+}
+
+// Shared state for one backfill run
+interface BackfillContext {
+  client: PublicClient
+  alchemy: Alchemy | null // Asset transfer APIs, only on chains Alchemy serves
+  network: string
+  chainId: number
+  blockTimestamps: Map<number, Date>
+  processedHashes: Set<string>
+}
+
+/**
+ * Backfill transactions for a set of addresses on a network
+ * Progress is checkpointed per address and source, so re-running the same
+ * request resumes where it stopped. Already stored transactions are skipped
+ * by processTransaction, which makes re-processing a block harmless.
+ */
+export async function runBackfill(options: BackfillOptions): Promise<BackfillSummary> {
+  const client = getPublicClient(options.network)
+  const toBlock = options.toBlock ?? Number(await client.getBlockNumber())
+  const alchemy = hasAlchemySupport(options.network) ? getAlchemyInstance(options.network) : null
+
+  // Chains without Alchemy can only be backfilled from contract logs
+  const sources = options.sources ?? (alchemy ? [...BACKFILL_SOURCES] : ['logs' as const])
+  if (!alchemy && sources.some((source) => source !== 'logs')) {
+    throw new InvalidBackfillError(
+      `Transfer backfill is not available on ${options.network} - use the logs source`
+    )
+  }
+  const addresses = Array.from(new Set(options.addresses.map((address) => address.toLowerCase())))
+
+  if (options.fromBlock > toBlock) {
+    throw new InvalidBackfillError(`fromBlock ${options.fromBlock} is after toBlock ${toBlock}`)
+  }
+
+  const context: BackfillContext = {
+    client,
+    alchemy,
+    network: options.network,
+    chainId: getChainId(options.network),
+    blockTimestamps: new Map(),
+    processedHashes: new Set(),
+  }
+
+  console.log(
+    `🔄 Backfilling ${addresses.length} address(es) on ${options.network} from block ${options.fromBlock} to ${toBlock}`
+  )
+
+  const checkpoints: BackfillCheckpoint[] = []
+  const running: BackfillCheckpoint[] = []
+
+  for (const address of addresses) {
+    for (const source of sources) {
+      const { checkpoint, skip } = await startCheckpoint(
+        options.network,
+        address,
+        source,
+        options.fromBlock,
+        toBlock
+      )
+      if (skip === 'running') running.push(checkpoint)
+      if (skip) continue
+
+      try {
+        const resumeFrom = Number(checkpoint.lastProcessedBlock ?? checkpoint.fromBlock)
+
+        if (source === 'logs') {
+          await backfillLogs(context, checkpoint, address, resumeFrom, toBlock)
+        } else {
+          await backfillTransfers(context, checkpoint, address, source, resumeFrom, toBlock)
+        }
+
+        checkpoints.push(
+          await prisma.backfillCheckpoint.update({
+            where: { id: checkpoint.id },
+            data: {
+              status: BackfillStatus.COMPLETED,
+              lastProcessedBlock: BigInt(toBlock),
+              errorMessage: null,
+            },
+          })
+        )
+        console.log(`✅ Backfill ${source} for ${address} completed`)
+      } catch (error) {
+        console.error(`❌ Backfill ${source} for ${address} failed:`, error)
+        checkpoints.push(
+          await prisma.backfillCheckpoint.update({
+            where: { id: checkpoint.id },
+            data: {
+              status: BackfillStatus.FAILED,
+              errorMessage: error instanceof Error ? error.message : 'Backfill failed',
+            },
+          })
+        )
+      }
+    }
+  }
+
+  return {
+    network: options.network,
+    fromBlock: options.fromBlock,
+    toBlock,
+    checkpoints: checkpoints.map(serializeCheckpoint),
+    running: running.map(serializeCheckpoint),
+  }
+}
+
+/**
+ * Create or resume the checkpoint for an address/source
+ * Sets skip when the range is already covered or another run is active. A run cut off
+ * mid-way (e.g. a request timeout) counts as active until it is STALE_RUN_MS old
+ */
+async function startCheckpoint(
+  network: string,
+  address: string,
+  source: BackfillSource,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ checkpoint: BackfillCheckpoint; skip?: 'covered' | 'running' }> {
+  const existing = await prisma.backfillCheckpoint.findUnique({
+    where: {
+      network_address_source_fromBlock: { network, address, source, fromBlock: BigInt(fromBlock) },
+    },
+  })
+
+  if (!existing) {
+    const checkpoint = await prisma.backfillCheckpoint.create({
+      data: {
+        network,
+        address,
+        source,
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+        status: BackfillStatus.RUNNING,
+      },
+    })
+    return { checkpoint }
+  }
+
+  if (existing.status === BackfillStatus.COMPLETED && existing.toBlock >= BigInt(toBlock)) {
+    console.log(`Backfill ${source} for ${address} already covers block ${toBlock}`)
+    return { checkpoint: existing, skip: 'covered' }
+  }
+
+  if (
+    existing.status === BackfillStatus.RUNNING &&
+    Date.now() - existing.updatedAt.getTime() < STALE_RUN_MS
+  ) {
+    console.warn(`Backfill ${source} for ${address} is already running - skipping`)
+    return { checkpoint: existing, skip: 'running' }
+  }
+
+  // Extending a completed range resumes from its old end block
+  const checkpoint = await prisma.backfillCheckpoint.update({
+    where: { id: existing.id },
+    data: {
+      toBlock: existing.toBlock > BigInt(toBlock) ? existing.toBlock : BigInt(toBlock),
+      status: BackfillStatus.RUNNING,
+      errorMessage: null,
+    },
+  })
+  return { checkpoint }
+}
+
+/**
+ * Record progress after a page or block chunk
+ */
+async function advanceCheckpoint(
+  checkpointId: string,
+  lastProcessedBlock: number,
+  processed: number,
+  failed: number
+) {
+  await prisma.backfillCheckpoint.update({
+    where: { id: checkpointId },
+    data: {
+      lastProcessedBlock: BigInt(lastProcessedBlock),
+      processedCount: { increment: processed },
+      failedCount: { increment: failed },
+    },
+  })
+}
+
+/**
+ * Page through native and ERC-20 transfers sent from or to an address
+ */
+async function backfillTransfers(
+  context: BackfillContext,
+  checkpoint: BackfillCheckpoint,
+  address: string,
+  source: BackfillSource,
+  fromBlock: number,
+  toBlock: number
+) {
+  if (!context.alchemy) {
+    throw new Error(`Transfer backfill is not available on ${context.network}`)
+  }
+
+  let pageKey: string | undefined
+
+  do {
+    const response = await context.alchemy.core.getAssetTransfers({
+      fromBlock: toHexBlock(fromBlock),
+      toBlock: toHexBlock(toBlock),
+      ...(source === 'transfers-from' ? { fromAddress: address } : { toAddress: address }),
+      category: [AssetTransfersCategory.EXTERNAL, AssetTransfersCategory.ERC20],
+      order: SortingOrder.ASCENDING,
+      withMetadata: true,
+      excludeZeroValue: false,
+      maxCount: TRANSFER_PAGE_SIZE,
+      pageKey,
+    })
+
+    let processed = 0
+    let failed = 0
+    let lastBlock = fromBlock
+    let firstFailedBlock: number | null = null
+
+    for (const transfer of response.transfers) {
+      const blockNumber = parseInt(transfer.blockNum, 16)
+
+      try {
+        if (!context.processedHashes.has(transfer.hash)) {
+          await processTransaction(
+            await buildTransferInput(context, transfer),
+            TransactionStatusSource.BACKFILL
+          )
+          context.processedHashes.add(transfer.hash)
+          processed++
+        }
+      } catch (error) {
+        console.error(`Error backfilling transfer ${transfer.hash}:`, error)
+        firstFailedBlock ??= blockNumber
+        failed++
+      }
+
+      lastBlock = blockNumber
+    }
+
+    // Stop at the first failed block so a re-run retries it
+    if (firstFailedBlock !== null) {
+      await advanceCheckpoint(checkpoint.id, firstFailedBlock, processed, failed)
+      throw new Error(`Failed to process ${failed} transfer(s) from block ${firstFailedBlock}`)
+    }
+
+    await advanceCheckpoint(checkpoint.id, lastBlock, processed, 0)
+    pageKey = response.pageKey
+  } while (pageKey)
+}
+
+/**
+ * Walk the block range in chunks and process every transaction that emitted a log
+ * from the address (KeloPay contracts)
+ */
+async function backfillLogs(
+  context: BackfillContext,
+  checkpoint: BackfillCheckpoint,
+  address: string,
+  fromBlock: number,
+  toBlock: number
+) {
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_CHUNK) {
+    const end = Math.min(start + LOG_BLOCK_CHUNK - 1, toBlock)
+    const logs = await context.client.getLogs({
+      address: address as Address,
+      fromBlock: BigInt(start),
+      toBlock: BigInt(end),
+    })
+
+    // Logs arrive in block order; process each transaction once
+    const hashes = Array.from(
+      new Set(logs.map((log) => log.transactionHash).filter((hash): hash is Hash => hash !== null))
+    )
+    let processed = 0
+
+    for (const hash of hashes) {
+      if (context.processedHashes.has(hash)) continue
+
+      try {
+        await processTransaction(
+          await buildTransactionInput(context, hash),
+          TransactionStatusSource.BACKFILL
+        )
+        context.processedHashes.add(hash)
+        processed++
+      } catch (error) {
+        console.error(`Error backfilling transaction ${hash}:`, error)
+        const failedLog = logs.find((log) => log.transactionHash === hash)
+        const failedBlock = failedLog?.blockNumber != null ? Number(failedLog.blockNumber) : start
+        await advanceCheckpoint(checkpoint.id, failedBlock, processed, 1)
+        throw new Error(`Failed to process transaction ${hash}`)
+      }
+    }
+
+    await advanceCheckpoint(checkpoint.id, end, processed, 0)
+  }
+}
+
+/**
+ * Build processor input for an asset transfer, carrying ERC-20 details
+ */
+async function buildTransferInput(
+  context: BackfillContext,
+  transfer: AssetTransfersWithMetadataResult
+): Promise<ProcessTransactionInput> {
+  const input = await buildTransactionInput(context, transfer.hash)
+  const rawValue = BigInt(transfer.rawContract.value ?? '0x0').toString()
+
+  if (transfer.category === AssetTransfersCategory.ERC20 && transfer.rawContract.address) {
+    const token: TokenTransferInput = {
+      contractAddress: transfer.rawContract.address.toLowerCase(),
+      rawAmount: rawValue,
+      symbol: transfer.asset ?? undefined,
+      decimals: transfer.rawContract.decimal ? Number(BigInt(transfer.rawContract.decimal)) : undefined,
+    }
+
+    return {
+      ...input,
+      fromAddress: transfer.from,
+      toAddress: transfer.to ?? input.toAddress,
+      value: '0',
+      token,
+    }
+  }
+
+  return { ...input, value: rawValue }
+}
+
+/**
+ * Build processor input for a transaction hash from its receipt
+ */
+async function buildTransactionInput(
+  context: BackfillContext,
+  hash: string
+): Promise<ProcessTransactionInput> {
+  const [transaction, receipt] = await Promise.all([
+    context.client.getTransaction({ hash: hash as Hash }),
+    context.client.getTransactionReceipt({ hash: hash as Hash }),
+  ])
+  const blockNumber = Number(receipt.blockNumber)
+
+  return {
+    txHash: hash,
+    blockNumber,
+    blockHash: receipt.blockHash,
+    timestamp: await getBlockTimestamp(context, blockNumber),
+    network: context.network,
+    chainId: context.chainId,
+    fromAddress: receipt.from,
+    toAddress: receipt.to ?? receipt.contractAddress ?? '',
+    value: transaction.value.toString(),
+    gasUsed: receipt.gasUsed.toString(),
+    gasPrice: receipt.effectiveGasPrice.toString(),
+    status: receipt.status === 'success' ? 'success' : 'failed',
+    logs: receipt.logs.map((log) => ({
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      logIndex: log.logIndex,
+    })),
+  }
+}
+
+/**
+ * Block timestamps, cached for the duration of the run
+ */
+async function getBlockTimestamp(context: BackfillContext, blockNumber: number): Promise<Date> {
+  const cached = context.blockTimestamps.get(blockNumber)
+  if (cached) return cached
+
+  const block = await context.client.getBlock({ blockNumber: BigInt(blockNumber) })
+  const timestamp = new Date(Number(block.timestamp) * 1000)
+  context.blockTimestamps.set(blockNumber, timestamp)
+  return timestamp
+}
+
+function toHexBlock(blockNumber: number): string {
+  return `0x${blockNumber.toString(16)}`
+}
+
+/**
+ * Convert BigInt columns for JSON responses and logs
+ */
+export function serializeCheckpoint(checkpoint: BackfillCheckpoint) {
+  return {
+    ...checkpoint,
+    fromBlock: Number(checkpoint.fromBlock),
+    toBlock: Number(checkpoint.toBlock),
+    lastProcessedBlock:
+      checkpoint.lastProcessedBlock !== null ? Number(checkpoint.lastProcessedBlock) : null,
+  }
+}
@@ -0,0 +1,127 @@
+// Chain Registry
+// Every supported network with its chain ID, explorer and data provider, shared by the indexer and the UI
+
+import type { Network } from 'alchemy-sdk'
+import type { Chain } from 'viem'
+import {
+  mainnet,
+  sepolia,
+  base,
+  baseSepolia,
+  arbitrum,
+  arbitrumSepolia,
+  lisk,
+  liskSepolia,
+  bsc,
+  bscTestnet,
+} from 'viem/chains'
+
+export interface ChainConfig {
+  network: string // Identifier stored on transactions, e.g. "base-sepolia"
+  name: string // Display name
+  chain: Chain
+  chainId: number
+  nativeSymbol: string // Token gas is paid in, used for gas fee pricing
+  confirmations: number // Block depth before a transaction is treated as final
+  explorerUrl: string
+  testnet: boolean
+  // Alchemy network, if Alchemy serves this chain; other chains are read over JSON-RPC
+  alchemyNetwork?: `${Network}`
+}
+
+interface ChainOptions {
+  confirmations: number
+  alchemyNetwork?: `${Network}`
+  nativeSymbol?: string // Price testnet gas tokens (tBNB) like their mainnet token
+}
+
+function defineChain(
+  network: string,
+  name: string,
+  chain: Chain,
+  { confirmations, alchemyNetwork, nativeSymbol }: ChainOptions
+): ChainConfig {
+  return {
+    network,
+    name,
+    chain,
+    chainId: chain.id,
+    nativeSymbol: nativeSymbol ?? chain.nativeCurrency.symbol,
+    confirmations,
+    explorerUrl: chain.blockExplorers?.default.url ?? '',
+    testnet: chain.testnet === true,
+    alchemyNetwork,
+  }
+}
+
+// Matches the networks offered in the wallet modal (config/index.tsx)
+export const CHAINS: Record<string, ChainConfig> = {
+  ethereum: defineChain('ethereum', 'Ethereum', mainnet, {
+    confirmations: 12,
+    alchemyNetwork: 'eth-mainnet',
+  }),
+  sepolia: defineChain('sepolia', 'Sepolia', sepolia, {
+    confirmations: 3,
+    alchemyNetwork: 'eth-sepolia',
+  }),
+  base: defineChain('base', 'Base', base, {
+    confirmations: 10,
+    alchemyNetwork: 'base-mainnet',
+  }),
+  'base-sepolia': defineChain('base-sepolia', 'Base Sepolia', baseSepolia, {
+    confirmations: 3,
+    alchemyNetwork: 'base-sepolia',
+  }),
+  arbitrum: defineChain('arbitrum', 'Arbitrum', arbitrum, {
+    confirmations: 20,
+    alchemyNetwork: 'arb-mainnet',
+  }),
+  'arbitrum-sepolia': defineChain('arbitrum-sepolia', 'Arbitrum Sepolia', arbitrumSepolia, {
+    confirmations: 5,
+    alchemyNetwork: 'arb-sepolia',
+  }),
+  lisk: defineChain('lisk', 'Lisk', lisk, { confirmations: 10 }),
+  'lisk-sepolia': defineChain('lisk-sepolia', 'Lisk Sepolia', liskSepolia, { confirmations: 3 }),
+  bsc: defineChain('bsc', 'BSC', bsc, {
+    confirmations: 15,
+    alchemyNetwork: 'bnb-mainnet',
+  }),
+  'bsc-testnet': defineChain('bsc-testnet', 'BSC Testnet', bscTestnet, {
+    confirmations: 5,
+    alchemyNetwork: 'bnb-testnet',
+    nativeSymbol: 'BNB',
+  }),
+}
+
+/**
+ * Look up a network, returning undefined if it is not supported
+ */
+export function findChainConfig(network: string): ChainConfig | undefined {
+  return CHAINS[network.toLowerCase()]
+}
+
+/**
+ * Look up a network, throwing if it is not supported
+ */
+export function getChainConfig(network: string): ChainConfig {
+  const config = findChainConfig(network)
+  if (!config) {
+    throw new Error(`Unsupported network: ${network}`)
+  }
+  return config
+}
+
+/**
+ * Look up a network by chain ID
+ */
+export function findChainConfigById(chainId: number): ChainConfig | undefined {
+  return Object.values(CHAINS).find((config) => config.chainId === chainId)
+}
+
+/**
+ * Look up a network by the Alchemy network name in webhook payloads, e.g. "BASE_MAINNET"
+ */
+export function findChainConfigByAlchemyNetwork(alchemyNetwork: string): ChainConfig | undefined {
+  const name = alchemyNetwork.toLowerCase().replace(/_/g, '-')
+  return Object.values(CHAINS).find((config) => config.alchemyNetwork === name)
+}
@@ -0,0 +1,200 @@
+// Confirmation Tracker
+// Promotes transactions to COMPLETED once they reach confirmation depth and detects reorgs
+
+import { TransactionStatus, TransactionStatusSource } from '@prisma/client'
+import {
+  BlockNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Hash,
+  type PublicClient,
+} from 'viem'
+import { prisma } from '@/lib/prisma'
+import { getPublicClient, getRequiredConfirmations, SUPPORTED_NETWORKS } from './indexer'
+import { markTransactionReorged, updateTransactionStatus } from './processor'
+
+// Transactions checked per network per run
+const BATCH_SIZE = 200
+
+export interface ConfirmationSummary {
+  network: string
+  currentBlock: number
+  requiredConfirmations: number
+  checked: number
+  completed: number
+  failedOnChain: number // Reverted on chain
+  reorged: number
+  remined: number
+  deferred: number // No receipt, but the stored block is still canonical; checked again next run
+  failed: number
+}
+
+/**
+ * Check unfinalized transactions on the given networks (all supported networks by default)
+ */
+export async function trackConfirmations(
+  networks: string[] = SUPPORTED_NETWORKS
+): Promise<ConfirmationSummary[]> {
+  const summaries: ConfirmationSummary[] = []
+
+  for (const network of networks) {
+    try {
+      summaries.push(await trackNetworkConfirmations(network))
+    } catch (error) {
+      console.error(`❌ Confirmation tracking failed for ${network}:`, error)
+    }
+  }
+
+  return summaries
+}
+
+/**
+ * Check a network's unfinalized transactions against the canonical chain
+ * - No receipt and a different block at the stored height: reorged out → CANCELLED. A missing
+ *   receipt alone (e.g. a lagging RPC node) is retried on the next run
+ * - Different block hash: re-mined in another block → block details updated, depth restarts
+ * - Enough confirmations: finalized; reverted transactions become FAILED and CONFIRMED ones COMPLETED
+ */
+export async function trackNetworkConfirmations(network: string): Promise<ConfirmationSummary> {
+  const requiredConfirmations = getRequiredConfirmations(network)
+
+  const pending = await prisma.transaction.findMany({
+    where: {
+      network,
+      finalizedAt: null,
+      status: { in: [TransactionStatus.PENDING, TransactionStatus.CONFIRMED] },
+    },
+    orderBy: { blockNumber: 'asc' },
+    take: BATCH_SIZE,
+  })
+
+  const summary: ConfirmationSummary = {
+    network,
+    currentBlock: 0,
+    requiredConfirmations,
+    checked: pending.length,
+    completed: 0,
+    failedOnChain: 0,
+    reorged: 0,
+    remined: 0,
+    deferred: 0,
+    failed: 0,
+  }
+
+  if (pending.length === 0) {
+    return summary
+  }
+
+  const client = getPublicClient(network)
+  summary.currentBlock = Number(await client.getBlockNumber())
+
+  for (const transaction of pending) {
+    try {
+      const receipt = await getReceipt(client, transaction.txHash)
+
+      if (!receipt) {
+        if (!(await isBlockReplaced(client, transaction.blockNumber, transaction.blockHash))) {
+          summary.deferred++
+          continue
+        }
+
+        await markTransactionReorged(
+          transaction.txHash,
+          'Transaction no longer in canonical chain',
+          TransactionStatusSource.CONFIRMATION_TRACKER
+        )
+        summary.reorged++
+        continue
+      }
+
+      const blockHash = receipt.blockHash.toLowerCase()
+
+      if (transaction.blockHash && transaction.blockHash !== blockHash) {
+        console.warn(
+          `⚠️ Transaction ${transaction.txHash} moved from block ${transaction.blockNumber} to ${receipt.blockNumber}`
+        )
+        await prisma.transaction.update({
+          where: { id: transaction.id },
+          data: { blockNumber: BigInt(receipt.blockNumber), blockHash },
+        })
+        summary.remined++
+        continue
+      }
+
+      const confirmations = summary.currentBlock - Number(receipt.blockNumber) + 1
+      if (confirmations < requiredConfirmations) {
+        continue
+      }
+
+      // Webhook activities don't say whether the transaction succeeded; the receipt does
+      if (receipt.status === 'reverted') {
+        await updateTransactionStatus(
+          transaction.txHash,
+          TransactionStatus.FAILED,
+          {
+            source: TransactionStatusSource.CONFIRMATION_TRACKER,
+            reason: 'Transaction reverted',
+            metadata: { confirmations, blockNumber: Number(receipt.blockNumber) },
+          },
+          { blockHash, finalizedAt: new Date() }
+        )
+        summary.failedOnChain++
+      } else if (transaction.status === TransactionStatus.CONFIRMED) {
+        await updateTransactionStatus(
+          transaction.txHash,
+          TransactionStatus.COMPLETED,
+          {
+            source: TransactionStatusSource.CONFIRMATION_TRACKER,
+            metadata: { confirmations, blockNumber: Number(receipt.blockNumber) },
+          },
+          { blockHash, finalizedAt: new Date() }
+        )
+        summary.completed++
+      } else {
+        // Business-pending transactions (e.g. conversion requests) keep their status
+        await prisma.transaction.update({
+          where: { id: transaction.id },
+          data: { blockHash, finalizedAt: new Date() },
+        })
+      }
+    } catch (error) {
+      console.error(`Error checking confirmations for ${transaction.txHash}:`, error)
+      summary.failed++
+    }
+  }
+
+  console.log(
+    `✅ ${network}: ${summary.completed} completed, ${summary.failedOnChain} reverted, ${summary.reorged} reorged, ${summary.remined} re-mined, ${summary.deferred} deferred of ${summary.checked}`
+  )
+  return summary
+}
+
+/**
+ * Fetch a transaction receipt, returning null if the chain no longer has it
+ */
+async function getReceipt(client: PublicClient, txHash: string) {
+  try {
+    return await client.getTransactionReceipt({ hash: txHash as Hash })
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Check whether the block a transaction was stored in has been replaced in the canonical chain
+ * False when the node has not reached that height yet. Without a stored hash, a canonical block
+ * at that height that no longer holds the receipt counts as replaced
+ */
+async function isBlockReplaced(client: PublicClient, blockNumber: bigint, blockHash: string | null) {
+  try {
+    const block = await client.getBlock({ blockNumber })
+    return !blockHash || block.hash?.toLowerCase() !== blockHash
+  } catch (error) {
+    if (error instanceof BlockNotFoundError) {
+      return false
+    }
+    throw error
+  }
+}
@@ -0,0 +1,269 @@
+// KeloPay Event Decoder
+// Decodes KeloPay contract logs into typed transaction events
+
+import { decodeEventLog, toEventSelector, type Abi, type AbiEvent, type Hex } from 'viem'
+import { TransactionType, TransactionStatus } from '@prisma/client'
+import {
+  KeloPayABI,
+  KeloPayConversionABI,
+  KeloPayRouterABI,
+  KeloPayWithdrawalABI,
+  CONTRACT_ADDRESSES,
+  type ChainId,
+} from '@/lib/contracts'
+
+export type KeloPayContractName =
+  | 'KeloPay'
+  | 'KeloPayConversion'
+  | 'KeloPayRouter'
+  | 'KeloPayWithdrawal'
+
+export interface EventLog {
+  address: string
+  topics: string[]
+  data: string
+  logIndex?: number
+}
+
+export interface DecodedKeloPayEvent {
+  contract: KeloPayContractName
+  eventName: string
+  logIndex?: number
+  type: TransactionType
+  status: TransactionStatus
+  // Reference shared by all events of one lifecycle, e.g. "conversion:0xabc..."
+  reference?: string
+  // Status to apply to the earlier transaction with the same reference, if any
+  lifecycleStatus?: TransactionStatus
+  conversionId?: string
+  merchantAddress?: string
+  orderId?: string
+  tokenAddress?: string
+  tokenAmount?: string
+  fiatCurrency?: string
+  fiatAmountRaw?: string
+  // Decimals of fiatAmountRaw - undefined means the token's decimals apply
+  fiatDecimals?: number
+  exchangeRate?: number
+  reason?: string
+  args: Record<string, string>
+}
+
+interface EventMapping {
+  type: TransactionType
+  status: TransactionStatus
+  lifecycleStatus?: TransactionStatus
+  // Higher wins when one transaction emits several events; ties keep log order
+  priority?: number
+}
+
+const CONTRACT_ABIS: Record<KeloPayContractName, Abi> = {
+  KeloPay: KeloPayABI as Abi,
+  KeloPayConversion: KeloPayConversionABI as Abi,
+  KeloPayRouter: KeloPayRouterABI as Abi,
+  KeloPayWithdrawal: KeloPayWithdrawalABI as Abi,
+}
+
+// Events that produce or update a transaction, keyed by contract then event name
+const EVENT_MAPPINGS: Record<KeloPayContractName, Record<string, EventMapping>> = {
+  KeloPay: {
+    Deposit: { type: TransactionType.DEPOSIT, status: TransactionStatus.COMPLETED },
+    EscrowCreated: { type: TransactionType.CONVERSION, status: TransactionStatus.PENDING },
+    EscrowReleased: {
+      type: TransactionType.CONVERSION,
+      status: TransactionStatus.COMPLETED,
+      lifecycleStatus: TransactionStatus.COMPLETED,
+    },
+    EscrowRefunded: {
+      type: TransactionType.REFUND,
+      status: TransactionStatus.COMPLETED,
+      lifecycleStatus: TransactionStatus.CANCELLED,
+    },
+  },
+  KeloPayConversion: {
+    ConversionRequested: { type: TransactionType.CONVERSION, status: TransactionStatus.PENDING },
+    ConversionCompleted: {
+      type: TransactionType.CONVERSION,
+      status: TransactionStatus.COMPLETED,
+      lifecycleStatus: TransactionStatus.COMPLETED,
+    },
+    ConversionFailed: {
+      type: TransactionType.CONVERSION,
+      status: TransactionStatus.FAILED,
+      lifecycleStatus: TransactionStatus.FAILED,
+    },
+  },
+  KeloPayRouter: {
+    PaymentRouted: { type: TransactionType.PAYMENT, status: TransactionStatus.COMPLETED },
+    // Emitted after PaymentRouted for merchant payments and carries the merchant
+    MerchantPaymentProcessed: {
+      type: TransactionType.PAYMENT,
+      status: TransactionStatus.COMPLETED,
+      priority: 1,
+    },
+    PaymentRefunded: {
+      type: TransactionType.REFUND,
+      status: TransactionStatus.COMPLETED,
+      lifecycleStatus: TransactionStatus.CANCELLED,
+    },
+  },
+  KeloPayWithdrawal: {
+    WithdrawalRequested: { type: TransactionType.WITHDRAWAL, status: TransactionStatus.PENDING },
+    WithdrawalCompleted: {
+      type: TransactionType.WITHDRAWAL,
+      status: TransactionStatus.COMPLETED,
+      lifecycleStatus: TransactionStatus.COMPLETED,
+    },
+    WithdrawalRejected: {
+      type: TransactionType.WITHDRAWAL,
+      status: TransactionStatus.FAILED,
+      lifecycleStatus: TransactionStatus.FAILED,
+    },
+  },
+}
+
+// Exchange rates on KeloPayConversion use 8 decimals (RATE_PRECISION)
+const RATE_DECIMALS = 8
+
+// Withdrawal fiat amounts are in the smallest fiat unit (cents, kobo)
+const WITHDRAWAL_FIAT_DECIMALS = 2
+
+// Topic0 selector → contract and event definition
+const EVENT_SELECTORS = new Map<string, { contract: KeloPayContractName; event: AbiEvent }>()
+
+for (const contract of Object.keys(CONTRACT_ABIS) as KeloPayContractName[]) {
+  for (const item of CONTRACT_ABIS[contract]) {
+    if (item.type === 'event' && EVENT_MAPPINGS[contract][item.name]) {
+      EVENT_SELECTORS.set(toEventSelector(item), { contract, event: item })
+    }
+  }
+}
+
+/**
+ * Get the deployed KeloPay contract name for an address on a chain
+ * Only logs emitted by configured contract addresses are trusted
+ */
+export function getKeloPayContractName(
+  chainId: number,
+  address: string
+): KeloPayContractName | null {
+  const addresses = CONTRACT_ADDRESSES[chainId as ChainId]
+  if (!addresses) return null
+
+  const normalized = address.toLowerCase()
+  for (const [name, contractAddress] of Object.entries(addresses)) {
+    if (contractAddress.toLowerCase() === normalized) {
+      return name as KeloPayContractName
+    }
+  }
+  return null
+}
+
+/**
+ * Decode a single log into a KeloPay event
+ * Returns null for logs from other contracts or events that don't map to a transaction
+ */
+export function decodeKeloPayLog(chainId: number, log: EventLog): DecodedKeloPayEvent | null {
+  const contract = getKeloPayContractName(chainId, log.address)
+  if (!contract || log.topics.length === 0) return null
+
+  const selector = EVENT_SELECTORS.get(log.topics[0].toLowerCase())
+  if (!selector || selector.contract !== contract) return null
+
+  try {
+    const decoded = decodeEventLog({
+      abi: [selector.event],
+      data: log.data as Hex,
+      topics: log.topics as [Hex, ...Hex[]],
+    })
+
+    const args = stringifyArgs(decoded.args as Record<string, unknown>)
+    const mapping = EVENT_MAPPINGS[contract][selector.event.name]
+
+    return {
+      contract,
+      eventName: selector.event.name,
+      logIndex: log.logIndex,
+      type: mapping.type,
+      status: mapping.status,
+      reference: getEventReference(args),
+      lifecycleStatus: mapping.lifecycleStatus,
+      conversionId: args.conversionId,
+      merchantAddress: args.merchant?.toLowerCase(),
+      orderId: args.orderId,
+      tokenAddress: args.token?.toLowerCase(),
+      tokenAmount: args.tokenAmount ?? args.amount,
+      fiatCurrency: args.fiatCurrency,
+      fiatAmountRaw: args.fiatAmount,
+      fiatDecimals: contract === 'KeloPayWithdrawal' ? WITHDRAWAL_FIAT_DECIMALS : undefined,
+      exchangeRate: args.exchangeRate
+        ? Number(args.exchangeRate) / 10 ** RATE_DECIMALS
+        : undefined,
+      reason: args.reason,
+      args,
+    }
+  } catch (error) {
+    console.error(`Error decoding ${contract}.${selector.event.name} log:`, error)
+    return null
+  }
+}
+
+/**
+ * Decode all KeloPay events from a transaction's logs, in log order
+ */
+export function decodeKeloPayLogs(chainId: number, logs: EventLog[]): DecodedKeloPayEvent[] {
+  return logs
+    .map((log) => decodeKeloPayLog(chainId, log))
+    .filter((event): event is DecodedKeloPayEvent => event !== null)
+}
+
+// Details an event can take from another event of the same lifecycle in the transaction
+const SHARED_FIELDS = ['merchantAddress', 'orderId', 'tokenAddress', 'tokenAmount'] as const
+
+/**
+ * Pick the event a transaction is recorded as, by EVENT_MAPPINGS priority
+ * Details it lacks are filled from the other events with the same reference,
+ * e.g. the token of PaymentRouted for a MerchantPaymentProcessed
+ */
+export function selectKeloPayEvent(events: DecodedKeloPayEvent[]): DecodedKeloPayEvent | undefined {
+  const getPriority = (event: DecodedKeloPayEvent) =>
+    EVENT_MAPPINGS[event.contract][event.eventName].priority ?? 0
+
+  const primary = events.reduce<DecodedKeloPayEvent | undefined>(
+    (best, event) => (!best || getPriority(event) > getPriority(best) ? event : best),
+    undefined
+  )
+  if (!primary?.reference) return primary
+
+  const selected = { ...primary }
+  for (const event of events) {
+    if (event === primary || event.reference !== primary.reference) continue
+    for (const field of SHARED_FIELDS) {
+      selected[field] ??= event[field]
+    }
+  }
+  return selected
+}
+
+/**
+ * Build the lifecycle reference from whichever ID the event carries
+ */
+function getEventReference(args: Record<string, string>): string | undefined {
+  if (args.conversionId) return `conversion:${args.conversionId}`
+  if (args.paymentId) return `payment:${args.paymentId}`
+  if (args.withdrawalId) return `withdrawal:${args.withdrawalId}`
+  if (args.escrowId) return `escrow:${args.escrowId}`
+  if (args.depositId) return `deposit:${args.depositId}`
+  return undefined
+}
+
+/**
+ * Convert decoded args (bigints, addresses) into JSON-safe strings
+ */
+function stringifyArgs(args: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [key, value] of Object.entries(args ?? {})) {
+    result[key] = String(value)
+  }
+  return result
+}
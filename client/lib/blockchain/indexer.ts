@@ -2,25 +2,18 @@
 // Monitors blockchain networks and captures transaction events
 
 import { Network, Alchemy } from 'alchemy-sdk'
-
-// Network configuration mapping
-const NETWORK_CONFIG: Record<string, { alchemy: Network; chainId: number }> = {
-  ethereum: { alchemy: Network.ETH_MAINNET, chainId: 1 },
-  sepolia: { alchemy: Network.ETH_SEPOLIA, chainId: 11155111 },
-  base: { alchemy: Network.BASE_MAINNET, chainId: 8453 },
-  'base-sepolia': { alchemy: Network.BASE_SEPOLIA, chainId: 84532 },
-  arbitrum: { alchemy: Network.ARB_MAINNET, chainId: 42161 },
-  'arbitrum-sepolia': { alchemy: Network.ARB_SEPOLIA, chainId: 421614 },
-}
+import { createPublicClient, http, type PublicClient } from 'viem'
+import { CHAINS, getChainConfig, findChainConfigById } from './chains'
 
 /**
  * Initialize Alchemy SDK for a specific network
+ * Only available for chains Alchemy serves - use getPublicClient for the others
  */
 export function getAlchemyInstance(network: string): Alchemy {
-  const config = NETWORK_CONFIG[network]
+  const config = getChainConfig(network)
 
-  if (!config) {
-    throw new Error(`Unsupported network: ${network}`)
+  if (!config.alchemyNetwork) {
+    throw new Error(`Alchemy does not support ${network}`)
   }
 
   const apiKey = process.env.NEXT_PUBLIC_ALCHEMY_API_KEY
@@ -30,7 +23,46 @@ export function getAlchemyInstance(network: string): Alchemy {
 
   return new Alchemy({
     apiKey,
-    network: config.alchemy,
+    network: config.alchemyNetwork as Network,
+  })
+}
+
+/**
+ * Check if Alchemy-only APIs (asset transfers, webhooks) are available for a network
+ */
+export function hasAlchemySupport(network: string): boolean {
+  return !!getChainConfig(network).alchemyNetwork
+}
+
+/**
+ * JSON-RPC URL for a network
+ * RPC_URL_<NETWORK> (e.g. RPC_URL_LISK_SEPOLIA) wins, then Alchemy, then the chain's public RPC
+ */
+export function getRpcUrl(network: string): string {
+  const config = getChainConfig(network)
+
+  const override = process.env[`RPC_URL_${config.network.toUpperCase().replace(/-/g, '_')}`]
+  if (override) {
+    return override
+  }
+
+  const apiKey = process.env.NEXT_PUBLIC_ALCHEMY_API_KEY
+  if (config.alchemyNetwork && apiKey) {
+    return `https://${config.alchemyNetwork}.g.alchemy.com/v2/${apiKey}`
+  }
+
+  return config.chain.rpcUrls.default.http[0]
+}
+
+/**
+ * Create a JSON-RPC client for a network, regardless of provider
+ */
+export function getPublicClient(network: string): PublicClient {
+  const config = getChainConfig(network)
+
+  return createPublicClient({
+    chain: config.chain,
+    transport: http(getRpcUrl(network)),
   })
 }
 
@@ -38,29 +70,38 @@ export function getAlchemyInstance(network: string): Alchemy {
  * Get chain ID for a network
  */
 export function getChainId(network: string): number {
-  const config = NETWORK_CONFIG[network]
-  if (!config) {
-    throw new Error(`Unsupported network: ${network}`)
-  }
-  return config.chainId
+  return getChainConfig(network).chainId
+}
+
+/**
+ * Get the native gas token symbol for a network
+ */
+export function getNativeTokenSymbol(network: string): string {
+  return getChainConfig(network).nativeSymbol
+}
+
+/**
+ * Get the number of confirmations required before a transaction is final
+ */
+export function getRequiredConfirmations(network: string): number {
+  return getChainConfig(network).confirmations
 }
 
 /**
  * Get network name from chain ID
  */
 export function getNetworkFromChainId(chainId: number): string {
-  for (const [network, config] of Object.entries(NETWORK_CONFIG)) {
-    if (config.chainId === chainId) {
-      return network
-    }
+  const config = findChainConfigById(chainId)
+  if (!config) {
+    throw new Error(`Unknown chain ID: ${chainId}`)
   }
-  throw new Error(`Unknown chain ID: ${chainId}`)
+  return config.network
 }
 
 /**
  * Supported networks list
  */
-export const SUPPORTED_NETWORKS = Object.keys(NETWORK_CONFIG)
+export const SUPPORTED_NETWORKS = Object.keys(CHAINS)
 
 /**
  * Check if a network is supported
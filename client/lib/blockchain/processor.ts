@@ -2,8 +2,28 @@
 // Parses blockchain transaction data and stores in database
 
 import { prisma } from '@/lib/prisma'
-import { TransactionType, TransactionStatus } from '@prisma/client'
-import { getChainId, getNetworkFromChainId } from './indexer'
+import {
+  Prisma,
+  TransactionType,
+  TransactionStatus,
+  TransactionStatusSource,
+  type Transaction,
+} from '@prisma/client'
+import { getChainId, getNativeTokenSymbol } from './indexer'
+import { findChainConfigByAlchemyNetwork, type ChainConfig } from './chains'
+import { getTokenMetadata, NATIVE_TOKEN_ADDRESS, ERC20_TRANSFER_TOPIC } from './tokens'
+import { decodeKeloPayLogs, selectKeloPayEvent, type DecodedKeloPayEvent, type EventLog } from './decoder'
+import { canTransitionStatus, InvalidStatusTransitionError } from './status'
+import { applyRollupChange } from '@/lib/analytics/rollups'
+import { recordAudit, type AuditActor } from '@/lib/audit'
+import { getFiatValue, getPriceProvider, isSupportedFiatCurrency, type FiatCurrency } from '@/lib/pricing'
+
+// Fiat currency used for transactions that don't specify one (USD, NGN, EUR or GBP)
+const DEFAULT_FIAT_CURRENCY: FiatCurrency = isSupportedFiatCurrency(
+  process.env.DEFAULT_FIAT_CURRENCY ?? ''
+)
+  ? (process.env.DEFAULT_FIAT_CURRENCY as FiatCurrency)
+  : 'USD'
 
 interface AlchemyWebhookTransaction {
   hash: string
@@ -17,9 +37,48 @@ interface AlchemyWebhookTransaction {
   nonce: string
 }
 
-interface ProcessTransactionInput {
+// Activity entry as delivered in an Address Activity webhook batch
+// Activities carry no chain ID or receipt status; the network is on the event
+interface AlchemyWebhookActivity {
+  hash?: string
+  blockNum?: string
+  blockHash?: string
+  removed?: boolean
+  timestamp?: string
+  fromAddress: string
+  toAddress: string
+  value?: string // Decimal amount, e.g. "0.5"
+  gasUsed?: string
+  gasPrice?: string
+  category?: string
+  asset?: string
+  rawContract?: {
+    rawValue?: string
+    address?: string
+    decimals?: number | string
+  }
+  log?: {
+    address: string
+    topics: string[]
+    data: string
+    logIndex?: string
+    blockHash?: string
+    removed?: boolean
+  }
+}
+
+// ERC-20 transfer details carried alongside the transaction
+export interface TokenTransferInput {
+  contractAddress: string
+  rawAmount: string // Integer amount in the token's smallest unit
+  symbol?: string // Symbol reported by the webhook, used if the token is not in the registry
+  decimals?: number
+}
+
+export interface ProcessTransactionInput {
   txHash: string
   blockNumber: number
+  blockHash?: string
   timestamp: Date
   network: string
   chainId: number
@@ -28,35 +87,88 @@ interface ProcessTransactionInput {
   value: string
   gasUsed: string
   gasPrice: string
-  status: 'success' | 'failed'
+  status?: 'success' | 'failed' // Unknown for webhook activities; the confirmation tracker reads the receipt
+  token?: TokenTransferInput
+  logs?: EventLog[]
+  removed?: boolean // Alchemy reports the transaction was reorged out of the chain
+}
+
+// What caused a status change, stored as a TransactionStatusEvent and an audit log entry
+export interface StatusChange {
+  source: TransactionStatusSource
+  actor?: AuditActor // Operator making the change
+  reason?: string
+  metadata?: Prisma.InputJsonObject
+  request?: Request // Operator request, for the audit log's IP and user agent
 }
 
 /**
  * Process and store a blockchain transaction
- * This is called when Alchemy webhook receives a transaction event
+ * This is called when Alchemy webhook receives a transaction event, and by backfills
  */
-export async function processTransaction(input: ProcessTransactionInput) {
+export async function processTransaction(
+  input: ProcessTransactionInput,
+  source: TransactionStatusSource = TransactionStatusSource.WEBHOOK
+) {
   try {
     // Check if transaction already exists
     const existingTx = await prisma.transaction.findUnique({
       where: { txHash: input.txHash },
     })
 
+    // Decode KeloPay contract events emitted by the transaction
+    const contractEvent = selectKeloPayEvent(decodeKeloPayLogs(input.chainId, input.logs ?? []))
+
     if (existingTx) {
-      console.log(`Transaction ${input.txHash} already processed`)
-      return existingTx
+      // Known hashes can still carry news (failure, re-inclusion after a reorg)
+      return await applyKnownTransactionUpdate(
+        existingTx,
+        input,
+        resolveTransactionStatus(input, contractEvent),
+        source
+      )
+    }
+
+    // Lifecycle events (completed, failed, refunded) move the original request forward
+    const original =
+      contractEvent?.lifecycleStatus && contractEvent.reference
+        ? await findTransactionByReference(contractEvent.reference)
+        : null
+    if (contractEvent?.lifecycleStatus && original) {
+      if (!canTransitionStatus(original.status, contractEvent.lifecycleStatus)) {
+        console.warn(
+          `⚠️ ${contractEvent.eventName} ignored: ${original.txHash} is ${original.status}`
+        )
+        if (contractEvent.type !== TransactionType.REFUND) {
+          return original
+        }
+      } else {
+        const updated = await updateTransactionStatus(original.txHash, contractEvent.lifecycleStatus, {
+          source: TransactionStatusSource.CONTRACT_EVENT,
+          reason: contractEvent.reason,
+          metadata: { txHash: input.txHash, eventName: contractEvent.eventName },
+        })
+        console.log(
+          `✅ ${contractEvent.eventName} moved ${original.txHash} to ${contractEvent.lifecycleStatus}`
+        )
+        // Refunds are stored as their own transaction as well
+        if (contractEvent.type !== TransactionType.REFUND) {
+          return updated
+        }
+      }
     }
 
-    // Determine transaction type based on value and addresses
-    const transactionType = determineTransactionType(input)
+    // Determine transaction type from the contract event, falling back to value heuristic
+    const transactionType = contractEvent?.type ?? determineTransactionType(input)
 
     // Determine transaction status
-    const transactionStatus =
-      input.status === 'success' ? TransactionStatus.COMPLETED : TransactionStatus.FAILED
+    const transactionStatus = resolveTransactionStatus(input, contractEvent)
 
-    // Calculate gas fee in wei and USD (placeholder for now)
+    // Calculate gas fee in wei and USD using the native token price at the block time
+    const nativeSymbol = getNativeTokenSymbol(input.network)
     const gasFeeWei = (BigInt(input.gasUsed) * BigInt(input.gasPrice)).toString()
-    const gasFeeUSD = 0 // TODO: Calculate from gas fee + ETH price
+    const gasFee = await getFiatValue(gasFeeWei, 18, nativeSymbol, 'USD', input.timestamp)
+    const gasFeeUSD = gasFee?.amount ?? 0
 
     // Find or create user based on fromAddress
     let user = await prisma.user.findUnique({
@@ -73,45 +185,90 @@ export async function processTransaction(input: ProcessTransactionInput) {
       })
     }
 
-    // Parse token information (simplified - assumes ETH for now)
-    const tokenSymbol = 'ETH'
-    const tokenAddress = '0x0000000000000000000000000000000000000000'
-    const tokenAmount = input.value
-    const tokenDecimals = 18
+    // Resolve token information (native currency or ERC-20 transfer)
+    // Refund events carry no token, so refunds take it from the payment or escrow they return
+    const token = resolveTokenDetails(
+      input,
+      contractEvent,
+      contractEvent?.type === TransactionType.REFUND ? original : null
+    )
 
-    // Calculate fiat amount (placeholder - will be replaced with real exchange rate)
-    const fiatAmount = 0 // TODO: Calculate using exchange rate API
-    const exchangeRate = 0
+    // Fiat fields come from conversion/withdrawal events, otherwise from the price oracle
+    const fiat =
+      resolveEventFiatDetails(contractEvent, token.decimals) ??
+      (await resolveMarketFiatDetails(token, input.timestamp))
 
-    // Store transaction in database
-    const transaction = await prisma.transaction.create({
-      data: {
-        userId: user.id,
-        txHash: input.txHash,
-        blockNumber: BigInt(input.blockNumber),
-        timestamp: input.timestamp,
-        network: input.network,
-        chainId: input.chainId,
-        type: transactionType,
-        status: transactionStatus,
-        fromAddress: input.fromAddress.toLowerCase(),
-        toAddress: input.toAddress.toLowerCase(),
-        fromTokenSymbol: tokenSymbol,
-        fromTokenAddress: tokenAddress,
-        fromTokenAmount: tokenAmount,
-        fromTokenDecimals: tokenDecimals,
-        toFiatCurrency: 'USD',
-        toFiatAmount: fiatAmount,
-        exchangeRate: exchangeRate,
-        gasFeeWei: gasFeeWei,
-        gasFeeUSD: gasFeeUSD,
-        platformFeeUSD: 0,
-        metadata: {
-          rawValue: input.value,
-          gasUsed: input.gasUsed,
-          gasPrice: input.gasPrice,
+    // Analytics add volumes up in USD, so price every transaction in USD at the same time
+    const volumeUSD = await resolveVolumeUSD(token, fiat, input.timestamp)
+
+    // Attribute merchant payments to the merchant's account
+    const merchant = contractEvent?.merchantAddress
+      ? await prisma.user.findUnique({
+          where: { walletAddress: contractEvent.merchantAddress },
+          select: { merchantId: true, merchantName: true },
+        })
+      : null
+
+    // Store transaction in database, counted in the analytics rollups in the same transaction
+    const transaction = await prisma.$transaction(async (tx) => {
+      const created = await tx.transaction.create({
+        data: {
+          userId: user.id,
+          txHash: input.txHash,
+          blockNumber: BigInt(input.blockNumber),
+          blockHash: input.blockHash?.toLowerCase(),
+          timestamp: input.timestamp,
+          network: input.network,
+          chainId: input.chainId,
+          type: transactionType,
+          status: transactionStatus,
+          fromAddress: input.fromAddress.toLowerCase(),
+          toAddress: input.toAddress.toLowerCase(),
+          fromTokenSymbol: token.symbol,
+          fromTokenAddress: token.address,
+          fromTokenAmount: token.amount,
+          fromTokenDecimals: token.decimals,
+          toFiatCurrency: fiat.currency,
+          toFiatAmount: fiat.amount,
+          exchangeRate: fiat.exchangeRate,
+          volumeUSD,
+          gasFeeWei: gasFeeWei,
+          gasFeeUSD: gasFeeUSD,
+          platformFeeUSD: 0,
+          merchantId: merchant?.merchantId,
+          merchantName: merchant?.merchantName,
+          statusEvents: {
+            create: {
+              toStatus: transactionStatus,
+              source,
+              metadata: contractEvent ? { eventName: contractEvent.eventName } : undefined,
+            },
+          },
+          metadata: {
+            rawValue: input.value,
+            gasUsed: input.gasUsed,
+            gasPrice: input.gasPrice,
+            tokenSource: token.source,
+            priceSource: fiat.priceSource,
+            eventReference: contractEvent?.reference,
+            contractEvent: contractEvent
+              ? {
+                  contract: contractEvent.contract,
+                  eventName: contractEvent.eventName,
+                  logIndex: contractEvent.logIndex,
+                  conversionId: contractEvent.conversionId,
+                  merchantAddress: contractEvent.merchantAddress,
+                  orderId: contractEvent.orderId,
+                  reason: contractEvent.reason,
+                  args: contractEvent.args,
+                }
+              : undefined,
+          },
         },
-      },
+      })
+
+      await applyRollupChange(tx, created.id, null, created.status)
+      return created
     })
 
     console.log(`✅ Transaction ${input.txHash} processed successfully`)
@@ -122,16 +279,112 @@ export async function processTransaction(input: ProcessTransactionInput) {
   }
 }
 
+/**
+ * Status for a newly seen transaction
+ * Successful transactions stay CONFIRMED until the confirmation tracker sees them at depth
+ */
+function resolveTransactionStatus(
+  input: ProcessTransactionInput,
+  contractEvent?: DecodedKeloPayEvent
+): TransactionStatus {
+  if (input.status === 'failed') {
+    return TransactionStatus.FAILED
+  }
+
+  const eventStatus = contractEvent?.status ?? TransactionStatus.COMPLETED
+  return eventStatus === TransactionStatus.COMPLETED ? TransactionStatus.CONFIRMED : eventStatus
+}
+
+/**
+ * Apply a delivery for a transaction that is already stored
+ * On-chain failures and re-inclusion after a reorg update the row; anything else is a duplicate
+ */
+async function applyKnownTransactionUpdate(
+  existing: Transaction,
+  input: ProcessTransactionInput,
+  incomingStatus: TransactionStatus,
+  source: TransactionStatusSource
+) {
+  const blockHash = input.blockHash?.toLowerCase()
+  const blockChanged = !!blockHash && blockHash !== existing.blockHash
+  const blockData: Prisma.TransactionUpdateInput = blockChanged
+    ? { blockNumber: BigInt(input.blockNumber), blockHash, finalizedAt: null }
+    : {}
+
+  // The transaction failed on chain - this overrides any earlier status the machine allows
+  if (
+    incomingStatus === TransactionStatus.FAILED &&
+    existing.status !== TransactionStatus.FAILED &&
+    canTransitionStatus(existing.status, TransactionStatus.FAILED)
+  ) {
+    console.log(`🔄 Transaction ${input.txHash} updated to FAILED`)
+    return await updateTransactionStatus(
+      input.txHash,
+      TransactionStatus.FAILED,
+      { source, reason: 'Transaction failed on chain' },
+      blockData
+    )
+  }
+
+  // A reorged transaction was mined again in a different block - only reorg cancellations are
+  // reverted, never cancellations from contract lifecycle events (refunds). Replays and retries of
+  // the original activity carry the reorged block and leave the row cancelled
+  const reorg = getReorgMetadata(existing)
+  if (
+    existing.status === TransactionStatus.CANCELLED &&
+    incomingStatus !== TransactionStatus.FAILED &&
+    reorg &&
+    !!blockHash &&
+    blockHash !== reorg.blockHash
+  ) {
+    console.log(`🔄 Transaction ${input.txHash} re-included on chain`)
+    return await updateTransactionStatus(
+      input.txHash,
+      incomingStatus,
+      { source, reason: 'Mined again after a reorg', metadata: { blockNumber: input.blockNumber } },
+      { blockNumber: BigInt(input.blockNumber), blockHash, finalizedAt: null }
+    )
+  }
+
+  // Same status but a different block: the transaction was re-mined
+  if (blockChanged && existing.status !== TransactionStatus.CANCELLED) {
+    console.log(`🔄 Transaction ${input.txHash} moved to block ${input.blockNumber}`)
+    return await prisma.transaction.update({
+      where: { txHash: input.txHash },
+      data: blockData,
+    })
+  }
+
+  console.log(`Transaction ${input.txHash} already processed`)
+  return existing
+}
+
+/**
+ * Reorg details stored by markTransactionReorged, or null if reorg detection never cancelled it
+ */
+function getReorgMetadata(transaction: Transaction): { blockHash: string | null } | null {
+  const metadata = transaction.metadata
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return null
+  }
+
+  const reorg = metadata.reorg
+  if (!reorg || typeof reorg !== 'object' || Array.isArray(reorg)) {
+    return null
+  }
+  return { blockHash: typeof reorg.blockHash === 'string' ? reorg.blockHash.toLowerCase() : null }
+}
+
 /**
  * Determine transaction type based on transaction data
- * This is a simplified version - can be enhanced with smart contract analysis
+ * Fallback for transactions that emit no KeloPay contract event
  */
 function determineTransactionType(input: ProcessTransactionInput): TransactionType {
   // Simple heuristic:
   // - If value > 0 and to a contract: could be deposit
   // - If value > 0 and to user: transfer
-  // For now, we'll classify based on value
-  const valueInWei = BigInt(input.value)
+  // For now, we'll classify based on value (token amount for ERC-20 transfers)
+  const valueInWei = BigInt(input.token ? input.token.rawAmount : input.value)
 
   if (valueInWei > 0) {
     // Has value transferred
@@ -142,53 +395,453 @@ function determineTransactionType(input: ProcessTransactionInput): TransactionTy
   }
 }
 
+/**
+ * Resolve symbol, address, amount and decimals for the transferred asset
+ * ERC-20 tokens are looked up in the local registry, falling back to webhook metadata
+ * Refunds without a token transfer use the refunded transaction's token and the event's amount
+ */
+function resolveTokenDetails(
+  input: ProcessTransactionInput,
+  contractEvent?: DecodedKeloPayEvent,
+  refunded?: Transaction | null
+) {
+  const tokenInput = input.token ?? getEventTokenTransfer(contractEvent)
+
+  if (!tokenInput && refunded) {
+    return {
+      symbol: refunded.fromTokenSymbol,
+      address: refunded.fromTokenAddress,
+      amount: contractEvent?.tokenAmount ?? refunded.fromTokenAmount,
+      decimals: refunded.fromTokenDecimals,
+      source: 'refunded',
+    }
+  }
+
+  if (!tokenInput) {
+    return {
+      symbol: getNativeTokenSymbol(input.network),
+      address: NATIVE_TOKEN_ADDRESS,
+      amount: input.value,
+      decimals: 18,
+      source: 'native',
+    }
+  }
+
+  const known = getTokenMetadata(input.chainId, tokenInput.contractAddress)
+  if (known) {
+    return {
+      symbol: known.symbol,
+      address: known.address,
+      amount: tokenInput.rawAmount,
+      decimals: known.decimals,
+      source: 'registry',
+    }
+  }
+
+  console.warn(
+    `Token ${tokenInput.contractAddress} on chain ${input.chainId} not in registry - using webhook metadata`
+  )
+
+  return {
+    symbol: tokenInput.symbol || 'UNKNOWN',
+    address: tokenInput.contractAddress.toLowerCase(),
+    amount: tokenInput.rawAmount,
+    decimals: tokenInput.decimals ?? 18,
+    source: 'webhook',
+  }
+}
+
+/**
+ * Token and amount carried in a contract event's args (deposits, conversions, withdrawals)
+ * Native currency (zero address) is left to the transaction value
+ */
+function getEventTokenTransfer(
+  contractEvent?: DecodedKeloPayEvent
+): TokenTransferInput | undefined {
+  if (
+    !contractEvent?.tokenAddress ||
+    !contractEvent.tokenAmount ||
+    contractEvent.tokenAddress === NATIVE_TOKEN_ADDRESS
+  ) {
+    return undefined
+  }
+
+  return {
+    contractAddress: contractEvent.tokenAddress,
+    rawAmount: contractEvent.tokenAmount,
+  }
+}
+
+/**
+ * Fiat currency, amount and exchange rate from a contract event
+ */
+function resolveEventFiatDetails(
+  contractEvent: DecodedKeloPayEvent | undefined,
+  tokenDecimals: number
+) {
+  if (!contractEvent?.fiatCurrency || !contractEvent.fiatAmountRaw) {
+    return null
+  }
+
+  const decimals = contractEvent.fiatDecimals ?? tokenDecimals
+
+  return {
+    currency: contractEvent.fiatCurrency,
+    amount: Number(contractEvent.fiatAmountRaw) / 10 ** decimals,
+    exchangeRate: contractEvent.exchangeRate ?? 0,
+    priceSource: 'contract',
+  }
+}
+
+/**
+ * Fiat value of the transferred token at the transaction time, from the price oracle
+ * Falls back to zero when no price is available so processing never blocks on pricing
+ */
+async function resolveMarketFiatDetails(
+  token: { symbol: string; amount: string; decimals: number },
+  timestamp: Date,
+  currency: FiatCurrency = DEFAULT_FIAT_CURRENCY
+) {
+  const value = await getFiatValue(token.amount, token.decimals, token.symbol, currency, timestamp)
+  if (!value) {
+    console.warn(`No ${token.symbol}/${currency} price available at ${timestamp.toISOString()}`)
+    return { currency, amount: 0, exchangeRate: 0, priceSource: undefined }
+  }
+
+  return {
+    currency,
+    amount: value.amount,
+    exchangeRate: value.price,
+    priceSource: getPriceProvider().name,
+  }
+}
+
+/**
+ * USD value of a transaction at its time: the fiat amount when it is already in USD,
+ * otherwise the transferred token priced in USD. Null when no USD price is available
+ */
+async function resolveVolumeUSD(
+  token: { symbol: string; amount: string; decimals: number },
+  fiat: { currency: string; amount: number; priceSource?: string },
+  timestamp: Date
+) {
+  if (fiat.currency === 'USD' && fiat.priceSource) {
+    return fiat.amount
+  }
+
+  const value = await getFiatValue(token.amount, token.decimals, token.symbol, 'USD', timestamp)
+  if (!value) {
+    console.warn(`No ${token.symbol}/USD price available at ${timestamp.toISOString()}`)
+    return null
+  }
+  return value.amount
+}
+
+/**
+ * Find the transaction that started a contract lifecycle (conversion, withdrawal, escrow...)
+ */
+async function findTransactionByReference(reference: string) {
+  return await prisma.transaction.findFirst({
+    where: {
+      metadata: {
+        path: ['eventReference'],
+        equals: reference,
+      },
+    },
+    orderBy: { timestamp: 'asc' },
+  })
+}
+
 /**
  * Update transaction status (for pending transactions that get confirmed later)
+ * Each change is checked against the status machine, recorded as a TransactionStatusEvent and
+ * an audit log entry, and moved between analytics rollup rows. The row is locked while the change is checked, so
+ * concurrent updates apply in turn. Throws InvalidStatusTransitionError for changes the
+ * machine does not allow.
  */
 export async function updateTransactionStatus(
   txHash: string,
   status: TransactionStatus,
-  errorMessage?: string
+  change: StatusChange,
+  data: Prisma.TransactionUpdateInput = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    // Lock the row so concurrent changes (e.g. the tracker and a reorg webhook) are checked
+    // one after the other against the latest status, never both against the same old one
+    const [existing] = await tx.$queryRaw<Pick<Transaction, 'status'>[]>`
+      SELECT "status" FROM "transactions" WHERE "txHash" = ${txHash} FOR UPDATE
+    `
+    if (!existing) {
+      throw new Error(`Transaction ${txHash} not found`)
+    }
+
+    if (!canTransitionStatus(existing.status, status)) {
+      throw new InvalidStatusTransitionError(existing.status, status)
+    }
+
+    const statusChanged = existing.status !== status
+
+    const updated = await tx.transaction.update({
+      where: { txHash },
+      data: {
+        ...data,
+        status,
+        // Failure reasons are shown as the error; other statuses clear it
+        errorMessage:
+          status === TransactionStatus.FAILED || status === TransactionStatus.CANCELLED
+            ? change.reason
+            : null,
+        updatedAt: new Date(),
+        statusEvents: statusChanged
+          ? {
+              create: {
+                fromStatus: existing.status,
+                toStatus: status,
+                source: change.source,
+                actorId: change.actor?.id,
+                reason: change.reason,
+                metadata: change.metadata,
+              },
+            }
+          : undefined,
+      },
+    })
+
+    if (statusChanged) {
+      await applyRollupChange(tx, updated.id, existing.status, status)
+      await recordAudit(
+        {
+          actor: change.actor ?? null,
+          action: 'transaction.status',
+          entityType: 'Transaction',
+          entityId: updated.id,
+          changes: { status: { from: existing.status, to: status } },
+          metadata: { txHash, source: change.source, reason: change.reason ?? null },
+          request: change.request,
+        },
+        tx
+      )
+    }
+
+    return updated
+  })
+}
+
+/**
+ * Mark a transaction as reorged out of the canonical chain
+ * The previous status and block are kept in metadata as an audit trail
+ * Returns null if the transaction was never stored
+ */
+export async function markTransactionReorged(
+  txHash: string,
+  reason: string,
+  source: TransactionStatusSource
 ) {
-  return await prisma.transaction.update({
-    where: { txHash },
-    data: {
-      status,
-      errorMessage,
-      updatedAt: new Date(),
+  const transaction = await prisma.transaction.findUnique({ where: { txHash } })
+  if (!transaction) {
+    return null
+  }
+
+  if (transaction.status === TransactionStatus.CANCELLED) {
+    return transaction
+  }
+
+  const metadata =
+    transaction.metadata && typeof transaction.metadata === 'object' && !Array.isArray(transaction.metadata)
+      ? transaction.metadata
+      : {}
+
+  console.warn(`⚠️ Transaction ${txHash} reorged: ${reason}`)
+
+  return await updateTransactionStatus(txHash, TransactionStatus.CANCELLED, { source, reason }, {
+    metadata: {
+      ...metadata,
+      reorg: {
+        detectedAt: new Date().toISOString(),
+        reason,
+        previousStatus: transaction.status,
+        blockNumber: transaction.blockNumber.toString(),
+        blockHash: transaction.blockHash,
+      },
     },
   })
 }
 
+/**
+ * Result of parsing a single activity from an Alchemy webhook payload
+ */
+export type ParsedWebhookActivity =
+  | { index: number; input: ProcessTransactionInput }
+  | { index: number; txHash?: string; error: string }
+
+/**
+ * Outcome of processing a single webhook activity
+ */
+export interface ActivityProcessingResult {
+  index: number
+  txHash?: string
+  status: 'processed' | 'reorged' | 'failed'
+  transactionId?: string
+  error?: string
+}
+
 /**
  * Parse Alchemy webhook payload
+ * Returns one entry per activity so batched Address Activity events are not dropped
  */
-export function parseAlchemyWebhook(payload: any): ProcessTransactionInput | null {
-  try {
-    const activity = payload.event?.activity?.[0]
-    if (!activity) {
-      console.error('No activity found in webhook payload')
-      return null
+export function parseAlchemyWebhook(payload: any): ParsedWebhookActivity[] | null {
+  const activities = payload?.event?.activity
+  if (!Array.isArray(activities) || activities.length === 0) {
+    console.error('No activity found in webhook payload')
+    return null
+  }
+
+  const alchemyNetwork: string = payload.event.network ?? ''
+  const chain = findChainConfigByAlchemyNetwork(alchemyNetwork)
+
+  return activities.map((activity: AlchemyWebhookActivity, index: number): ParsedWebhookActivity => {
+    try {
+      if (!chain) {
+        throw new Error(`Unsupported Alchemy network: ${alchemyNetwork || 'missing'}`)
+      }
+      return { index, input: parseAlchemyActivity(activity, chain) }
+    } catch (error) {
+      console.error(`Error parsing Alchemy webhook activity ${index}:`, error)
+      return {
+        index,
+        txHash: activity?.hash,
+        error: error instanceof Error ? error.message : 'Invalid activity',
+      }
     }
+  })
+}
 
-    // Extract transaction details
-    const tx = activity
+/**
+ * Parse a single Alchemy activity into processor input
+ */
+function parseAlchemyActivity(tx: AlchemyWebhookActivity, chain: ChainConfig): ProcessTransactionInput {
+  if (!tx.hash) {
+    throw new Error('Activity is missing transaction hash')
+  }
+
+  const token = parseTokenTransfer(tx)
+
+  return {
+    txHash: tx.hash,
+    blockNumber: parseInt(tx.blockNum || '0x0', 16), // Convert hex to decimal
+    blockHash: tx.blockHash ?? tx.log?.blockHash,
+    timestamp: new Date(tx.timestamp || Date.now()),
+    network: chain.network,
+    chainId: chain.chainId,
+    fromAddress: tx.fromAddress,
+    toAddress: tx.toAddress,
+    value: token ? '0' : parseNativeValue(tx),
+    gasUsed: tx.gasUsed || '0',
+    gasPrice: tx.gasPrice || '0',
+    token,
+    logs: tx.log
+      ? [
+          {
+            address: tx.log.address,
+            topics: tx.log.topics,
+            data: tx.log.data,
+            logIndex: tx.log.logIndex ? parseInt(tx.log.logIndex, 16) : undefined,
+          },
+        ]
+      : undefined,
+    removed: tx.removed === true || tx.log?.removed === true,
+  }
+}
+
+/**
+ * Extract ERC-20 transfer details from an activity
+ * Uses Alchemy's rawContract when present, otherwise decodes the Transfer log
+ */
+function parseTokenTransfer(tx: AlchemyWebhookActivity): TokenTransferInput | undefined {
+  const isTokenCategory = tx.category === 'token' || tx.category === 'erc20'
 
+  if (isTokenCategory && tx.rawContract?.address) {
     return {
-      txHash: tx.hash,
-      blockNumber: parseInt(tx.blockNum, 16), // Convert hex to decimal
-      timestamp: new Date(tx.timestamp || Date.now()),
-      network: getNetworkFromChainId(parseInt(tx.chainId || '1')),
-      chainId: parseInt(tx.chainId || '1'),
-      fromAddress: tx.fromAddress,
-      toAddress: tx.toAddress,
-      value: tx.value || '0',
-      gasUsed: tx.gasUsed || '0',
-      gasPrice: tx.gasPrice || '0',
-      status: tx.status === '0x1' ? 'success' : 'failed',
+      contractAddress: tx.rawContract.address.toLowerCase(),
+      rawAmount: BigInt(tx.rawContract.rawValue || '0').toString(),
+      symbol: tx.asset,
+      decimals:
+        tx.rawContract.decimals !== undefined ? Number(tx.rawContract.decimals) : undefined,
     }
-  } catch (error) {
-    console.error('Error parsing Alchemy webhook:', error)
-    return null
   }
+
+  // Transfer(address indexed from, address indexed to, uint256 value)
+  if (tx.log && tx.log.topics[0]?.toLowerCase() === ERC20_TRANSFER_TOPIC && tx.log.topics.length === 3) {
+    return {
+      contractAddress: tx.log.address.toLowerCase(),
+      rawAmount: BigInt(tx.log.data || '0x0').toString(),
+      symbol: tx.asset,
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Native value in wei from Alchemy's raw hex value; `value` is a formatted decimal amount
+ */
+function parseNativeValue(tx: AlchemyWebhookActivity): string {
+  return BigInt(tx.rawContract?.rawValue || '0x0').toString()
+}
+
+/**
+ * Process every parsed activity from a webhook batch
+ * Activities are processed sequentially so a failure in one does not stop the rest
+ */
+export async function processWebhookActivities(
+  activities: ParsedWebhookActivity[]
+): Promise<ActivityProcessingResult[]> {
+  const results: ActivityProcessingResult[] = []
+
+  for (const activity of activities) {
+    if ('error' in activity) {
+      results.push({
+        index: activity.index,
+        txHash: activity.txHash,
+        status: 'failed',
+        error: activity.error,
+      })
+      continue
+    }
+
+    try {
+      // Removed activities are chain reorgs - cancel the stored transaction instead
+      if (activity.input.removed) {
+        const reorged = await markTransactionReorged(
+          activity.input.txHash,
+          'Removed from chain (reorg reported by webhook)',
+          TransactionStatusSource.WEBHOOK
+        )
+        results.push({
+          index: activity.index,
+          txHash: activity.input.txHash,
+          status: 'reorged',
+          transactionId: reorged?.id,
+        })
+        continue
+      }
+
+      const transaction = await processTransaction(activity.input)
+      results.push({
+        index: activity.index,
+        txHash: transaction.txHash,
+        status: 'processed',
+        transactionId: transaction.id,
+      })
+    } catch (error) {
+      results.push({
+        index: activity.index,
+        txHash: activity.input.txHash,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Processing failed',
+      })
+    }
+  }
+
+  return results
 }
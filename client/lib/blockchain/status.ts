@@ -0,0 +1,35 @@
+// Transaction Status Machine
+// Status transitions a transaction may go through
+
+import { TransactionStatus } from '@prisma/client'
+
+const { PENDING, CONFIRMED, COMPLETED, FAILED, CANCELLED } = TransactionStatus
+
+// Allowed next statuses for each status
+export const STATUS_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  PENDING: [CONFIRMED, COMPLETED, FAILED, CANCELLED],
+  CONFIRMED: [COMPLETED, FAILED, CANCELLED],
+  COMPLETED: [CANCELLED], // Refunded or reorged out
+  FAILED: [CANCELLED], // Reorged out
+  CANCELLED: [PENDING, CONFIRMED, FAILED], // Mined again after a reorg
+}
+
+/**
+ * Thrown when a status change is not allowed by STATUS_TRANSITIONS
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public from: TransactionStatus,
+    public to: TransactionStatus
+  ) {
+    super(`Transaction status cannot change from ${from} to ${to}`)
+    this.name = 'InvalidStatusTransitionError'
+  }
+}
+
+/**
+ * Check a status change; keeping the same status is always allowed
+ */
+export function canTransitionStatus(from: TransactionStatus, to: TransactionStatus): boolean {
+  return from === to || STATUS_TRANSITIONS[from].includes(to)
+}
@@ -0,0 +1,85 @@
+// Token Registry
+// Known ERC-20 tokens per chain, used to resolve symbol and decimals for transfers
+
+export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+// keccak256("Transfer(address,address,uint256)")
+export const ERC20_TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+
+export interface TokenMetadata {
+  symbol: string
+  address: string
+  decimals: number
+}
+
+// Registry keyed by chainId, then lowercase token contract address
+const TOKEN_REGISTRY: Record<number, Record<string, { symbol: string; decimals: number }>> = {
+  // Ethereum
+  1: {
+    '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': { symbol: 'USDC', decimals: 6 },
+    '0xdac17f958d2ee523a2206206994597c13d831ec7': { symbol: 'USDT', decimals: 6 },
+    '0x6b175474e89094c44da98b954eedeac495271d0f': { symbol: 'DAI', decimals: 18 },
+    '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': { symbol: 'WETH', decimals: 18 },
+  },
+  // Ethereum Sepolia
+  11155111: {
+    '0x1c7d4b196cb0c7b01d743fbc6116a902379c7238': { symbol: 'USDC', decimals: 6 },
+  },
+  // Base
+  8453: {
+    '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913': { symbol: 'USDC', decimals: 6 },
+    '0xfde4c96c8593536e31f229ea8f37b2ada2699bb2': { symbol: 'USDT', decimals: 6 },
+    '0x50c5725949a6f0c72e6c4a641f24049a917db0cb': { symbol: 'DAI', decimals: 18 },
+    '0x4200000000000000000000000000000000000006': { symbol: 'WETH', decimals: 18 },
+  },
+  // Base Sepolia
+  84532: {
+    '0x036cbd53842c5426634e7929541ec2318f3dcf7e': { symbol: 'USDC', decimals: 6 },
+  },
+  // Arbitrum
+  42161: {
+    '0xaf88d065e77c8cc2239327c5edb3a432268e5831': { symbol: 'USDC', decimals: 6 },
+    '0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9': { symbol: 'USDT', decimals: 6 },
+    '0xda10009cbd5d07dd0cecc66161fc93d7c9000da1': { symbol: 'DAI', decimals: 18 },
+    '0x82af49447d8a07e3bd95bd0d56f35241523fbab1': { symbol: 'WETH', decimals: 18 },
+  },
+  // Arbitrum Sepolia
+  421614: {
+    '0x75faf114eafb1bdbe2f0316df893fd58ce46aa4d': { symbol: 'USDC', decimals: 6 },
+  },
+  // Lisk
+  1135: {
+    '0x05d032ac25d322df992303dca074ee7392c117b9': { symbol: 'USDT', decimals: 6 },
+    '0xf242275d3a6527d877f2c927a82d9b057609cc71': { symbol: 'USDC', decimals: 6 },
+    '0x4200000000000000000000000000000000000006': { symbol: 'WETH', decimals: 18 },
+  },
+  // BSC (BEP-20 stablecoins use 18 decimals)
+  56: {
+    '0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d': { symbol: 'USDC', decimals: 18 },
+    '0x55d398326f99059ff775485246999027b3197955': { symbol: 'USDT', decimals: 18 },
+    '0x1af3f329e8be154074d8769d1ffa4ee058b1dbc3': { symbol: 'DAI', decimals: 18 },
+    '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c': { symbol: 'WBNB', decimals: 18 },
+  },
+}
+
+/**
+ * Look up a known token by chain ID and contract address
+ */
+export function getTokenMetadata(chainId: number, address: string): TokenMetadata | null {
+  const normalized = address.toLowerCase()
+  const token = TOKEN_REGISTRY[chainId]?.[normalized]
+
+  if (!token) {
+    return null
+  }
+
+  return { ...token, address: normalized }
+}
+
+/**
+ * Check if an address is a known token on a chain
+ */
+export function isKnownToken(chainId: number, address: string): boolean {
+  return getTokenMetadata(chainId, address) !== null
+}
@@ -0,0 +1,96 @@
+// Transaction Views
+// JSON-safe transactions and the status timeline shown on the detail page
+
+import { formatUnits } from 'viem'
+import {
+  Prisma,
+  TransactionStatus,
+  TransactionStatusSource,
+  type Transaction,
+  type User,
+} from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { findChainConfig } from './chains'
+
+export interface TransactionTimelineEntry {
+  fromStatus: TransactionStatus | null
+  status: TransactionStatus
+  source: TransactionStatusSource | null // Null when no status events were recorded
+  actor: Pick<User, 'id' | 'walletAddress'> | null
+  reason: string | null
+  metadata: Prisma.JsonValue
+  at: Date
+}
+
+/**
+ * Convert BigInt and Decimal columns for JSON responses
+ */
+export function serializeTransaction<T extends Transaction>(transaction: T) {
+  return {
+    ...transaction,
+    blockNumber: Number(transaction.blockNumber),
+    toFiatAmount: transaction.toFiatAmount?.toNumber() ?? null,
+    exchangeRate: transaction.exchangeRate?.toNumber() ?? null,
+    gasFeeUSD: transaction.gasFeeUSD.toNumber(),
+    platformFeeUSD: transaction.platformFeeUSD?.toNumber() ?? null,
+  }
+}
+
+/**
+ * Human-readable token amount and gas fee breakdown
+ */
+export function getTransactionAmounts(transaction: Transaction) {
+  const chain = findChainConfig(transaction.network)
+  const gasFeeUSD = transaction.gasFeeUSD.toNumber()
+  const platformFeeUSD = transaction.platformFeeUSD?.toNumber() ?? 0
+
+  return {
+    tokenAmount: formatUnits(BigInt(transaction.fromTokenAmount), transaction.fromTokenDecimals),
+    gas: {
+      wei: transaction.gasFeeWei,
+      native: formatUnits(BigInt(transaction.gasFeeWei), 18),
+      nativeSymbol: chain?.nativeSymbol ?? 'ETH',
+      usd: gasFeeUSD,
+    },
+    platformFeeUSD,
+    totalFeesUSD: gasFeeUSD + platformFeeUSD,
+  }
+}
+
+/**
+ * Status history of a transaction, oldest first
+ * Transactions stored before status events were recorded get a single entry for their current status
+ */
+export async function getTransactionTimeline(
+  transaction: Transaction
+): Promise<TransactionTimelineEntry[]> {
+  const events = await prisma.transactionStatusEvent.findMany({
+    where: { transactionId: transaction.id },
+    include: { actor: { select: { id: true, walletAddress: true } } },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  if (events.length === 0) {
+    return [
+      {
+        fromStatus: null,
+        status: transaction.status,
+        source: null,
+        actor: null,
+        reason: transaction.errorMessage,
+        metadata: null,
+        at: transaction.createdAt,
+      },
+    ]
+  }
+
+  return events.map((event) => ({
+    fromStatus: event.fromStatus,
+    status: event.toStatus,
+    source: event.source,
+    actor: event.actor,
+    reason: event.reason,
+    metadata: event.metadata,
+    at: event.createdAt,
+  }))
+}
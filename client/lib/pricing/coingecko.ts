@@ -0,0 +1,75 @@
+// CoinGecko Price Provider
+// Historical token prices from the CoinGecko market chart API
+
+import type { FiatCurrency, PriceProvider } from './provider'
+
+const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3'
+
+// Token symbol → CoinGecko coin ID
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+  WETH: 'weth',
+  BNB: 'binancecoin',
+  WBNB: 'wbnb',
+  LSK: 'lisk',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+  DAI: 'dai',
+}
+
+// Search window around the requested timestamp (CoinGecko returns 5-minute data for ranges under a day)
+const SEARCH_WINDOW_SECONDS = 60 * 60
+
+interface MarketChartResponse {
+  prices: [number, number][]
+}
+
+/**
+ * Price provider that looks up the price closest to a timestamp
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly name = 'coingecko'
+
+  constructor(
+    private readonly apiKey: string | undefined = process.env.COINGECKO_API_KEY,
+    private readonly baseUrl: string = COINGECKO_API_URL
+  ) {}
+
+  async getPrice(symbol: string, currency: FiatCurrency, at: Date): Promise<number | null> {
+    const coinId = COINGECKO_IDS[symbol.toUpperCase()]
+    if (!coinId) return null
+
+    const timestamp = Math.floor(at.getTime() / 1000)
+    const params = new URLSearchParams({
+      vs_currency: currency.toLowerCase(),
+      from: (timestamp - SEARCH_WINDOW_SECONDS).toString(),
+      to: (timestamp + SEARCH_WINDOW_SECONDS).toString(),
+    })
+
+    const response = await fetch(`${this.baseUrl}/coins/${coinId}/market_chart/range?${params}`, {
+      headers: this.apiKey ? { 'x-cg-demo-api-key': this.apiKey } : undefined,
+    })
+
+    if (!response.ok) {
+      throw new Error(`CoinGecko request failed with status ${response.status}`)
+    }
+
+    const data = (await response.json()) as MarketChartResponse
+    return findClosestPrice(data.prices ?? [], at.getTime())
+  }
+}
+
+/**
+ * Pick the price point nearest to the target timestamp (ms)
+ */
+function findClosestPrice(prices: [number, number][], targetMs: number): number | null {
+  let closest: [number, number] | null = null
+
+  for (const point of prices) {
+    if (!closest || Math.abs(point[0] - targetMs) < Math.abs(closest[0] - targetMs)) {
+      closest = point
+    }
+  }
+
+  return closest ? closest[1] : null
+}
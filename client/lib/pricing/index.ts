@@ -0,0 +1,55 @@
+// Pricing Service
+// Resolves the configured price provider and converts token amounts to fiat
+
+import { formatUnits } from 'viem'
+import { CachedPriceProvider, type FiatCurrency, type PriceProvider } from './provider'
+import { CoinGeckoPriceProvider } from './coingecko'
+import { StaticPriceProvider } from './static'
+
+export * from './provider'
+export { CoinGeckoPriceProvider } from './coingecko'
+export { StaticPriceProvider } from './static'
+
+let priceProvider: PriceProvider | null = null
+
+/**
+ * Get the shared price provider
+ * PRICE_PROVIDER=static uses fixture prices (offline development), otherwise CoinGecko
+ */
+export function getPriceProvider(): PriceProvider {
+  if (!priceProvider) {
+    const provider =
+      process.env.PRICE_PROVIDER === 'static'
+        ? new StaticPriceProvider()
+        : new CoinGeckoPriceProvider()
+
+    priceProvider = new CachedPriceProvider(provider)
+  }
+  return priceProvider
+}
+
+/**
+ * Override the shared price provider (tests, scripts)
+ */
+export function setPriceProvider(provider: PriceProvider | null) {
+  priceProvider = provider
+}
+
+/**
+ * Convert a raw token amount (smallest unit) into fiat at a point in time
+ * Returns null if the price is unavailable
+ */
+export async function getFiatValue(
+  rawAmount: string,
+  decimals: number,
+  symbol: string,
+  currency: FiatCurrency,
+  at: Date,
+  provider: PriceProvider = getPriceProvider()
+): Promise<{ amount: number; price: number } | null> {
+  const price = await provider.getPrice(symbol, currency, at)
+  if (price === null) return null
+
+  const amount = Number(formatUnits(BigInt(rawAmount), decimals)) * price
+  return { amount, price }
+}
@@ -0,0 +1,94 @@
+// Price Provider
+// Common interface for token price sources plus a timestamp-aware cache
+
+export const SUPPORTED_FIAT_CURRENCIES = ['USD', 'NGN', 'EUR', 'GBP'] as const
+
+export type FiatCurrency = (typeof SUPPORTED_FIAT_CURRENCIES)[number]
+
+/**
+ * Source of token prices in fiat currencies
+ * Implementations return null when a price is unknown rather than throwing
+ */
+export interface PriceProvider {
+  readonly name: string
+  getPrice(symbol: string, currency: FiatCurrency, at: Date): Promise<number | null>
+}
+
+interface CacheOptions {
+  // Prices are cached per time bucket, e.g. one price per token per hour
+  bucketMs?: number
+  // How long prices for recent buckets stay cached before being refetched
+  recentTtlMs?: number
+  maxEntries?: number
+}
+
+interface CacheEntry {
+  value: Promise<number | null>
+  expiresAt: number
+}
+
+/**
+ * Check if a currency code is a supported fiat currency
+ */
+export function isSupportedFiatCurrency(currency: string): currency is FiatCurrency {
+  return (SUPPORTED_FIAT_CURRENCIES as readonly string[]).includes(currency)
+}
+
+/**
+ * Caches prices from another provider by symbol, currency and time bucket
+ * Historical buckets never change so they are kept until evicted; the current
+ * bucket is refetched after recentTtlMs
+ */
+export class CachedPriceProvider implements PriceProvider {
+  readonly name: string
+  private readonly cache = new Map<string, CacheEntry>()
+  private readonly bucketMs: number
+  private readonly recentTtlMs: number
+  private readonly maxEntries: number
+
+  constructor(private readonly provider: PriceProvider, options: CacheOptions = {}) {
+    this.name = `cached:${provider.name}`
+    this.bucketMs = options.bucketMs ?? 60 * 60 * 1000 // 1 hour
+    this.recentTtlMs = options.recentTtlMs ?? 60 * 1000 // 1 minute
+    this.maxEntries = options.maxEntries ?? 5000
+  }
+
+  async getPrice(symbol: string, currency: FiatCurrency, at: Date): Promise<number | null> {
+    const bucket = Math.floor(at.getTime() / this.bucketMs)
+    const key = `${symbol.toUpperCase()}:${currency}:${bucket}`
+    const now = Date.now()
+
+    const cached = this.cache.get(key)
+    if (cached && cached.expiresAt > now) {
+      return cached.value
+    }
+
+    const isCurrentBucket = bucket === Math.floor(now / this.bucketMs)
+    const value = this.provider.getPrice(symbol, currency, at).catch((error) => {
+      console.error(`Price lookup failed for ${symbol}/${currency}:`, error)
+      return null
+    })
+
+    // In-flight lookups are cached too, so concurrent callers share one request
+    this.cache.set(key, {
+      value,
+      expiresAt: isCurrentBucket ? now + this.recentTtlMs : Number.POSITIVE_INFINITY,
+    })
+    this.evictOldest()
+
+    // Don't keep failed lookups around
+    const price = await value
+    if (price === null) {
+      this.cache.delete(key)
+    }
+    return price
+  }
+
+  private evictOldest() {
+    while (this.cache.size > this.maxEntries) {
+      const oldestKey = this.cache.keys().next().value
+      if (oldestKey === undefined) break
+      this.cache.delete(oldestKey)
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// Static Price Provider
+// Fixed prices for tests and offline development
+
+import type { FiatCurrency, PriceProvider } from './provider'
+
+// Token prices in USD
+const DEFAULT_USD_PRICES: Record<string, number> = {
+  ETH: 3000,
+  WETH: 3000,
+  BNB: 600,
+  WBNB: 600,
+  LSK: 1,
+  USDC: 1,
+  USDT: 1,
+  DAI: 1,
+}
+
+// Units of each fiat currency per 1 USD
+const DEFAULT_FX_RATES: Record<FiatCurrency, number> = {
+  USD: 1,
+  NGN: 1500,
+  EUR: 0.92,
+  GBP: 0.79,
+}
+
+interface StaticPriceProviderOptions {
+  usdPrices?: Record<string, number>
+  fxRates?: Partial<Record<FiatCurrency, number>>
+}
+
+/**
+ * Price provider backed by a fixture table
+ * Prices ignore the timestamp, so results are deterministic
+ */
+export class StaticPriceProvider implements PriceProvider {
+  readonly name = 'static'
+  private readonly usdPrices: Record<string, number>
+  private readonly fxRates: Record<FiatCurrency, number>
+
+  constructor(options: StaticPriceProviderOptions = {}) {
+    this.usdPrices = { ...DEFAULT_USD_PRICES, ...options.usdPrices }
+    this.fxRates = { ...DEFAULT_FX_RATES, ...options.fxRates }
+  }
+
+  async getPrice(symbol: string, currency: FiatCurrency): Promise<number | null> {
+    const usdPrice = this.usdPrices[symbol.toUpperCase()]
+    if (usdPrice === undefined) return null
+
+    return usdPrice * this.fxRates[currency]
+  }
+}
@@ -0,0 +1,129 @@
+// Rate Limiting
+// Per-route request limits keyed by client IP, wallet and API key
+
+import type { User, UserRole } from '@prisma/client'
+import { ApiError } from '@/lib/api/utils'
+import { getRequestContext } from '@/lib/audit'
+import type { ApiKeyContext } from '@/lib/auth/apiKeys'
+import { MemoryRateLimitStore, type RateLimitStore } from './store'
+
+export * from './store'
+
+export interface RateLimitPolicy {
+  windowMs: number
+  // Requests per window from one IP address, checked before authentication
+  perIp: number
+  // Requests per window for one signed-in wallet
+  perUser?: number
+  // Per-role overrides of perUser (e.g. staff dashboards poll more)
+  roles?: Partial<Record<UserRole, number>>
+  // Requests per window for one merchant API key
+  perApiKey?: number
+}
+
+const MINUTE = 60 * 1000
+
+// Limits per route; analytics is the most expensive, so it has the lowest limits
+export const RATE_LIMIT_POLICIES = {
+  user: { windowMs: MINUTE, perIp: 60, perUser: 30 },
+  transactions: {
+    windowMs: MINUTE,
+    perIp: 120,
+    perUser: 60,
+    roles: { ADMIN: 240, OPERATIONS: 240 },
+    perApiKey: 120,
+  },
+  analytics: {
+    windowMs: MINUTE,
+    perIp: 30,
+    perUser: 10,
+    roles: { ADMIN: 30, OPERATIONS: 30, GROWTH: 30 },
+    perApiKey: 20,
+  },
+  // Unauthenticated and writes a row per request; a login needs one nonce
+  nonce: { windowMs: MINUTE, perIp: 10 },
+  // Alchemy delivers from a small set of IPs, so this only stops floods
+  webhook: { windowMs: MINUTE, perIp: 600 },
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitRoute = keyof typeof RATE_LIMIT_POLICIES
+
+let rateLimitStore: RateLimitStore | null = null
+
+/**
+ * Get the shared rate limit store (in-memory unless overridden)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = new MemoryRateLimitStore()
+  }
+  return rateLimitStore
+}
+
+/**
+ * Override the shared rate limit store (e.g. a Redis-backed store, tests)
+ */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  rateLimitStore = store
+}
+
+/**
+ * Limit requests from the client's IP address
+ * Call before authentication so failed sign-ins and key guesses are throttled too
+ */
+export async function enforceIpRateLimit(route: RateLimitRoute, request: Request) {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[route]
+  const ip = getRequestContext(request).ipAddress ?? 'unknown'
+
+  await consume(`${route}:ip:${ip}`, policy.perIp, policy.windowMs)
+}
+
+/**
+ * Limit requests from a signed-in wallet or merchant API key
+ * API keys are limited per key, wallets per user with the role's limit
+ */
+export async function enforceUserRateLimit(
+  route: RateLimitRoute,
+  user: User & { apiKey?: ApiKeyContext | null }
+) {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[route]
+
+  if (user.apiKey) {
+    if (policy.perApiKey) {
+      await consume(`${route}:key:${user.apiKey.id}`, policy.perApiKey, policy.windowMs)
+    }
+    return
+  }
+
+  const limit = policy.roles?.[user.role] ?? policy.perUser
+  if (limit) {
+    await consume(`${route}:user:${user.id}`, limit, policy.windowMs)
+  }
+}
+
+/**
+ * Count a request against a limit
+ * Throws a 429 with Retry-After once the limit is exceeded. If the store is
+ * unavailable, requests are let through rather than failing the API.
+ */
+async function consume(key: string, limit: number, windowMs: number) {
+  let counter
+  try {
+    counter = await getRateLimitStore().increment(key, windowMs)
+  } catch (error) {
+    console.error('❌ Rate limit store error:', error)
+    return
+  }
+
+  if (counter.count <= limit) {
+    return
+  }
+
+  const retryAfter = Math.max(1, Math.ceil((counter.resetAt - Date.now()) / 1000))
+  throw new ApiError('Too many requests', 429, {
+    'Retry-After': retryAfter.toString(),
+    'RateLimit-Limit': limit.toString(),
+    'RateLimit-Remaining': '0',
+    'RateLimit-Reset': retryAfter.toString(),
+  })
+}
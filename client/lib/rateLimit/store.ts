@@ -0,0 +1,67 @@
+// Rate Limit Store
+// Common interface for rate limit counters plus the in-memory implementation
+
+export interface RateLimitCounter {
+  count: number // Requests in the current window, including this one
+  resetAt: number // Epoch ms when the window ends
+}
+
+/**
+ * Backend for fixed-window request counters
+ * Use a shared store (e.g. Redis) when running more than one server instance
+ */
+export interface RateLimitStore {
+  readonly name: string
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>
+}
+
+interface MemoryStoreOptions {
+  // Expired windows are swept once the map grows past this size
+  sweepThreshold?: number
+}
+
+/**
+ * Per-process counters - fine for a single instance and development
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory'
+  private readonly counters = new Map<string, RateLimitCounter>()
+  private readonly sweepThreshold: number
+  private nextSweepAt: number
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.sweepThreshold = options.sweepThreshold ?? 10000
+    this.nextSweepAt = this.sweepThreshold
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now()
+    const existing = this.counters.get(key)
+
+    if (existing && existing.resetAt > now) {
+      existing.count++
+      return { ...existing }
+    }
+
+    if (this.counters.size >= this.nextSweepAt) {
+      this.sweep(now)
+    }
+
+    const counter = { count: 1, resetAt: now + windowMs }
+    this.counters.set(key, counter)
+    return { ...counter }
+  }
+
+  /**
+   * Drop expired windows
+   * Live windows are never dropped - that would reset a client's limit. If most entries are
+   * live, the next sweep waits until the map has doubled so sweeps don't run on every request.
+   */
+  private sweep(now: number) {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key)
+    }
+
+    this.nextSweepAt = Math.max(this.sweepThreshold, this.counters.size * 2)
+  }
+}
@@ -1,6 +1,8 @@
 // Formatting utilities for analytics dashboard
 // Handles numbers, dates, addresses, and other display formatting
 
+import { CHAINS, findChainConfig } from '@/lib/blockchain/chains'
+
 /**
  * Format wallet address to shortened version
  * @param address - Full wallet address
@@ -229,18 +231,8 @@ export function getBlockExplorerUrl(
   network: string,
   txHash: string
 ): string {
-  const explorers: Record<string, string> = {
-    ethereum: 'https://etherscan.io/tx/',
-    base: 'https://basescan.org/tx/',
-    arbitrum: 'https://arbiscan.io/tx/',
-    lisk: 'https://blockscout.lisk.com/tx/',
-    bsc: 'https://bscscan.com/tx/',
-    sepolia: 'https://sepolia.etherscan.io/tx/',
-    'base-sepolia': 'https://sepolia.basescan.org/tx/',
-  }
-
-  const baseUrl = explorers[network.toLowerCase()] || explorers.ethereum
-  return `${baseUrl}${txHash}`
+  const explorerUrl = (findChainConfig(network) ?? CHAINS.ethereum).explorerUrl
+  return `${explorerUrl}/tx/${txHash}`
 }
 
 /**
@@ -249,17 +241,7 @@ export function getBlockExplorerUrl(
  * @returns Readable network name
  */
 export function getNetworkName(network: string): string {
-  const names: Record<string, string> = {
-    ethereum: 'Ethereum',
-    base: 'Base',
-    arbitrum: 'Arbitrum',
-    lisk: 'Lisk',
-    bsc: 'BSC',
-    sepolia: 'Sepolia',
-    'base-sepolia': 'Base Sepolia',
-  }
-
-  return names[network.toLowerCase()] || network
+  return findChainConfig(network)?.name || network
 }
 
 /**
@@ -0,0 +1,337 @@
+// Webhook Inbox
+// Durable storage for incoming webhooks with retries, backoff and a dead-letter state
+
+import { Prisma, WebhookEventStatus, type WebhookEvent } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApiError } from '@/lib/api/utils'
+import {
+  parseAlchemyWebhook,
+  processWebhookActivities,
+  type ActivityProcessingResult,
+} from '@/lib/blockchain/processor'
+
+// Attempts before an event is moved to the dead-letter state
+export const MAX_WEBHOOK_ATTEMPTS = 8
+
+// Retry delay doubles per attempt: 30s, 1m, 2m, ... capped at 1 hour
+const BASE_BACKOFF_MS = 30 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+
+// Events stuck in PROCESSING this long (e.g. the process crashed) are picked up again
+const STALE_PROCESSING_MS = 10 * 60 * 1000
+
+// Events handled per worker run
+const WORKER_BATCH_SIZE = 25
+
+// New events older than this (by their createdAt) are rejected as replays. Retries keep the
+// original createdAt, so this must outlast provider retries after our own downtime; repeats
+// within the window are caught by the event ID instead.
+const TIMESTAMP_TOLERANCE_MS =
+  Number(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS || 24 * 60 * 60) * 1000
+
+export interface WebhookProcessingOutcome {
+  inboxId: string
+  status: WebhookEventStatus
+  attempts: number
+  processed: number
+  failed: number
+  results: ActivityProcessingResult[]
+  error?: string
+}
+
+// A delivery whose signature has been verified
+interface RecordWebhookEventInput {
+  payload: Prisma.InputJsonValue
+  provider?: string
+}
+
+export interface RecordedWebhookEvent {
+  event: WebhookEvent
+  // True if this event ID was already received; the stored event is returned untouched
+  duplicate: boolean
+}
+
+/**
+ * Persist a verified webhook delivery before any processing happens
+ * Deliveries are idempotent on the provider's event ID. New events outside the timestamp
+ * tolerance are stored as REJECTED without the event ID, so a later valid delivery of the
+ * same event is still processed. Unsigned deliveries must not be recorded.
+ */
+export async function recordWebhookEvent(
+  input: RecordWebhookEventInput
+): Promise<RecordedWebhookEvent> {
+  const provider = input.provider ?? 'alchemy'
+  const payload = asPayloadObject(input.payload)
+
+  const payloadEventId = typeof payload.id === 'string' ? payload.id : null
+
+  if (payloadEventId) {
+    const existing = await prisma.webhookEvent.findUnique({
+      where: { provider_eventId: { provider, eventId: payloadEventId } },
+    })
+    if (existing) {
+      return { event: existing, duplicate: true }
+    }
+  }
+
+  // Only events we haven't seen are checked, so retries of a stored event are always acknowledged
+  const rejectionReason = checkWebhookTimestamp(input.payload)
+  const eventId = rejectionReason ? null : payloadEventId
+
+  try {
+    const event = await prisma.webhookEvent.create({
+      data: {
+        provider,
+        webhookId: typeof payload.webhookId === 'string' ? payload.webhookId : null,
+        eventId,
+        eventType: typeof payload.type === 'string' ? payload.type : null,
+        payload: input.payload,
+        signatureValid: true,
+        status: rejectionReason ? WebhookEventStatus.REJECTED : WebhookEventStatus.PENDING,
+        lastError: rejectionReason,
+      },
+    })
+    return { event, duplicate: false }
+  } catch (error) {
+    // A concurrent delivery of the same event won the insert
+    if (
+      eventId &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      const existing = await prisma.webhookEvent.findUniqueOrThrow({
+        where: { provider_eventId: { provider, eventId } },
+      })
+      return { event: existing, duplicate: true }
+    }
+    throw error
+  }
+}
+
+/**
+ * Check the payload's createdAt against the replay tolerance window
+ * Returns a rejection reason, or null if the timestamp is acceptable
+ */
+export function checkWebhookTimestamp(
+  payload: Prisma.InputJsonValue,
+  now: Date = new Date()
+): string | null {
+  const createdAt = asPayloadObject(payload).createdAt
+  if (typeof createdAt !== 'string') {
+    return 'Missing createdAt timestamp'
+  }
+
+  const sentAt = new Date(createdAt).getTime()
+  if (Number.isNaN(sentAt)) {
+    return 'Invalid createdAt timestamp'
+  }
+
+  if (Math.abs(now.getTime() - sentAt) > TIMESTAMP_TOLERANCE_MS) {
+    return `Timestamp outside the ${TIMESTAMP_TOLERANCE_MS / 1000}s tolerance window`
+  }
+
+  return null
+}
+
+/**
+ * Events that are due for processing: new, failed and due for retry, or stuck in PROCESSING
+ */
+function claimableWhere(now: Date): Prisma.WebhookEventWhereInput {
+  return {
+    signatureValid: true,
+    OR: [
+      {
+        status: { in: [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED] },
+        nextAttemptAt: { lte: now },
+      },
+      {
+        status: WebhookEventStatus.PROCESSING,
+        updatedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) },
+      },
+    ],
+  }
+}
+
+/**
+ * Process a single inbox event
+ * Returns null if the event is not due or another worker already claimed it
+ */
+export async function processWebhookEvent(id: string): Promise<WebhookProcessingOutcome | null> {
+  // Claim the event so concurrent workers don't process it twice
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: { id, ...claimableWhere(new Date()) },
+    data: {
+      status: WebhookEventStatus.PROCESSING,
+      attempts: { increment: 1 },
+    },
+  })
+
+  if (claimed.count === 0) {
+    return null
+  }
+
+  const event = await prisma.webhookEvent.findUniqueOrThrow({ where: { id } })
+
+  try {
+    const activities = parseAlchemyWebhook(event.payload)
+    if (!activities) {
+      // Nothing to retry - the payload itself is unusable
+      return await finishEvent(event, WebhookEventStatus.DEAD_LETTER, [], 'Invalid webhook payload')
+    }
+
+    const results = await processWebhookActivities(activities)
+    const failed = results.filter((result) => result.status === 'failed').length
+
+    if (failed > 0) {
+      return await failEvent(
+        event,
+        `Failed to process ${failed} of ${results.length} activities`,
+        results
+      )
+    }
+
+    return await finishEvent(event, WebhookEventStatus.PROCESSED, results)
+  } catch (error) {
+    console.error(`❌ Error processing webhook event ${id}:`, error)
+    return await failEvent(event, error instanceof Error ? error.message : 'Processing failed', [])
+  }
+}
+
+/**
+ * Process every due inbox event, oldest first
+ */
+export async function processPendingWebhookEvents(
+  limit: number = WORKER_BATCH_SIZE
+): Promise<WebhookProcessingOutcome[]> {
+  const due = await prisma.webhookEvent.findMany({
+    where: claimableWhere(new Date()),
+    orderBy: { receivedAt: 'asc' },
+    take: limit,
+    select: { id: true },
+  })
+
+  const outcomes: WebhookProcessingOutcome[] = []
+  for (const { id } of due) {
+    const outcome = await processWebhookEvent(id)
+    if (outcome) outcomes.push(outcome)
+  }
+
+  return outcomes
+}
+
+/**
+ * Replay a single event immediately, whatever its current state
+ * Re-processing is safe: stored transactions only change for news the delivery carries (an on-chain
+ * failure, or re-inclusion of a reorged transaction in a different block), so replaying the original
+ * activity never reopens a transaction that was reorged out
+ */
+export async function replayWebhookEvent(id: string): Promise<WebhookProcessingOutcome> {
+  const event = await prisma.webhookEvent.findUnique({ where: { id } })
+  if (!event) {
+    throw new ApiError('Webhook event not found', 404)
+  }
+
+  await prisma.webhookEvent.updateMany({
+    where: {
+      id,
+      NOT: { status: WebhookEventStatus.PROCESSING },
+    },
+    data: { status: WebhookEventStatus.PENDING, nextAttemptAt: new Date() },
+  })
+
+  const outcome = await processWebhookEvent(id)
+  if (!outcome) {
+    throw new ApiError('Webhook event is currently being processed', 409)
+  }
+  return outcome
+}
+
+/**
+ * Queue every event received in a time range for replay
+ * Returns the number of events queued; the worker picks them up
+ */
+export async function replayWebhookEvents(options: {
+  from: Date
+  to: Date
+  statuses?: WebhookEventStatus[]
+}): Promise<number> {
+  const replayable = (options.statuses ?? Object.values(WebhookEventStatus)).filter(
+    (status) => status !== WebhookEventStatus.PROCESSING && status !== WebhookEventStatus.REJECTED
+  )
+
+  const queued = await prisma.webhookEvent.updateMany({
+    where: {
+      receivedAt: { gte: options.from, lte: options.to },
+      status: { in: replayable },
+    },
+    data: { status: WebhookEventStatus.PENDING, nextAttemptAt: new Date() },
+  })
+
+  return queued.count
+}
+
+/**
+ * Narrow a JSON payload to an object so its fields can be read
+ */
+function asPayloadObject(payload: Prisma.InputJsonValue): Record<string, unknown> {
+  return payload && typeof payload === 'object' && !Array.isArray(payload)
+    ? (payload as Record<string, unknown>)
+    : {}
+}
+
+/**
+ * Record a failed attempt, scheduling a retry or dead-lettering the event
+ */
+async function failEvent(
+  event: WebhookEvent,
+  error: string,
+  results: ActivityProcessingResult[]
+): Promise<WebhookProcessingOutcome> {
+  if (event.attempts >= MAX_WEBHOOK_ATTEMPTS) {
+    console.error(`☠️ Webhook event ${event.id} dead-lettered after ${event.attempts} attempts`)
+    return await finishEvent(event, WebhookEventStatus.DEAD_LETTER, results, error)
+  }
+
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (event.attempts - 1), MAX_BACKOFF_MS)
+  return await finishEvent(
+    event,
+    WebhookEventStatus.FAILED,
+    results,
+    error,
+    new Date(Date.now() + backoff)
+  )
+}
+
+/**
+ * Store the outcome of an attempt
+ */
+async function finishEvent(
+  event: WebhookEvent,
+  status: WebhookEventStatus,
+  results: ActivityProcessingResult[],
+  error?: string,
+  nextAttemptAt?: Date
+): Promise<WebhookProcessingOutcome> {
+  await prisma.webhookEvent.update({
+    where: { id: event.id },
+    data: {
+      status,
+      lastError: error ?? null,
+      lastResult: results as unknown as Prisma.InputJsonValue,
+      processedAt: status === WebhookEventStatus.PROCESSED ? new Date() : undefined,
+      nextAttemptAt,
+    },
+  })
+
+  const failed = results.filter((result) => result.status === 'failed').length
+
+  return {
+    inboxId: event.id,
+    status,
+    attempts: event.attempts,
+    processed: results.length - failed,
+    failed,
+    results,
+    error,
+  }
+}
@@ -0,0 +1,91 @@
+// Webhook Signature Verification
+// HMAC verification against one or more signing keys, failing closed when none are configured
+
+import crypto from 'crypto'
+
+export interface WebhookSigningKey {
+  id: string // Label used in logs, e.g. "base" or "old"
+  secret: string
+}
+
+export interface SignatureVerification {
+  valid: boolean
+  keyId?: string // Which signing key matched
+  reason?: string // Why verification failed
+}
+
+/**
+ * Load signing keys from the environment
+ * ALCHEMY_WEBHOOK_SECRETS holds labelled keys ("base:whsec_a,arbitrum:whsec_b,old:whsec_c");
+ * ALCHEMY_WEBHOOK_SECRET is still read as the "default" key
+ */
+export function getWebhookSigningKeys(): WebhookSigningKey[] {
+  const keys: WebhookSigningKey[] = []
+
+  const entries = (process.env.ALCHEMY_WEBHOOK_SECRETS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  entries.forEach((entry, index) => {
+    const separator = entry.indexOf(':')
+    if (separator > 0) {
+      keys.push({ id: entry.slice(0, separator), secret: entry.slice(separator + 1) })
+    } else {
+      keys.push({ id: `key-${index + 1}`, secret: entry })
+    }
+  })
+
+  if (process.env.ALCHEMY_WEBHOOK_SECRET) {
+    keys.push({ id: 'default', secret: process.env.ALCHEMY_WEBHOOK_SECRET })
+  }
+
+  return keys.filter((key) => key.secret.length > 0)
+}
+
+/**
+ * Unsigned webhooks are only accepted when explicitly enabled in development
+ */
+function allowUnsignedWebhooks(): boolean {
+  return (
+    process.env.NODE_ENV === 'development' && process.env.ALLOW_UNSIGNED_WEBHOOKS === 'true'
+  )
+}
+
+/**
+ * Verify an Alchemy webhook signature (hex HMAC-SHA256 of the raw body)
+ * Every configured key is tried so webhooks per network and rotated keys all verify
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null,
+  keys: WebhookSigningKey[] = getWebhookSigningKeys()
+): SignatureVerification {
+  if (keys.length === 0) {
+    if (allowUnsignedWebhooks()) {
+      console.warn('⚠️ No webhook signing keys configured - accepting unsigned webhook (development)')
+      return { valid: true, keyId: 'unsigned' }
+    }
+    return { valid: false, reason: 'No webhook signing keys configured' }
+  }
+
+  if (!signature) {
+    return { valid: false, reason: 'Missing signature' }
+  }
+
+  const received = Buffer.from(signature.trim().toLowerCase(), 'utf8')
+
+  for (const key of keys) {
+    const digest = Buffer.from(
+      crypto.createHmac('sha256', key.secret).update(body, 'utf8').digest('hex'),
+      'utf8'
+    )
+
+    // timingSafeEqual throws on length mismatch, so compare lengths first
+    if (received.length === digest.length && crypto.timingSafeEqual(received, digest)) {
+      return { valid: true, keyId: key.id }
+    }
+  }
+
+  return { valid: false, reason: 'Signature does not match any signing key' }
+}
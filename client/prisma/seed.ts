@@ -1,7 +1,16 @@
 // Database Seed Script
 // Populates database with test data for development
 
-import { PrismaClient, UserRole, TransactionType, TransactionStatus } from '@prisma/client'
+import {
+  PrismaClient,
+  UserRole,
+  TransactionType,
+  TransactionStatus,
+  TransactionStatusSource,
+} from '@prisma/client'
+import { CHAINS } from '../lib/blockchain/chains'
+import { DEFAULT_ROLE_PERMISSIONS } from '../lib/auth/roles'
+import { recomputeRollups } from '../lib/analytics/rollups'
 
 const prisma = new PrismaClient()
 
@@ -18,6 +27,24 @@ const TOKEN_ADDRESSES = {
 async function main() {
   console.log('🌱 Starting database seed...')
 
+  // Built-in roles and their default permissions (editable afterwards via /api/admin/roles)
+  const roles = await Promise.all(
+    Object.values(UserRole).map((role) =>
+      prisma.role.upsert({
+        where: { name: role },
+        update: { isSystem: true },
+        create: {
+          name: role,
+          description: `Built-in ${role.toLowerCase()} role`,
+          permissions: DEFAULT_ROLE_PERMISSIONS[role],
+          isSystem: true,
+        },
+      })
+    )
+  )
+
+  console.log(`✅ Seeded ${roles.length} system roles`)
+
   // Create test users with different roles
   const users = await Promise.all([
     // Admin user
@@ -100,7 +127,7 @@ async function main() {
           blockNumber: BigInt(Math.floor(Math.random() * 1000000) + 15000000),
           timestamp,
           network,
-          chainId: network === 'ethereum' ? 1 : network === 'base' ? 8453 : 42161,
+          chainId: CHAINS[network].chainId,
           type,
           status,
           fromAddress: user.walletAddress,
@@ -112,11 +139,31 @@ async function main() {
           toFiatCurrency: 'USD',
           toFiatAmount: fiatAmount,
           exchangeRate,
+          volumeUSD: fiatAmount,
           gasFeeWei: (Math.random() * 0.01 * 1e18).toFixed(0),
           gasFeeUSD: parseFloat((Math.random() * 10 + 1).toFixed(2)),
           platformFeeUSD: parseFloat((fiatAmount * 0.01).toFixed(2)),
           merchantId: user.role === UserRole.MERCHANT ? user.merchantId : null,
           merchantName: user.role === UserRole.MERCHANT ? user.merchantName : null,
+          // Failed transactions are stored as failed; completed ones pass through CONFIRMED first
+          statusEvents: {
+            create:
+              status === TransactionStatus.COMPLETED
+                ? [
+                    {
+                      toStatus: TransactionStatus.CONFIRMED,
+                      source: TransactionStatusSource.WEBHOOK,
+                      createdAt: timestamp,
+                    },
+                    {
+                      fromStatus: TransactionStatus.CONFIRMED,
+                      toStatus: TransactionStatus.COMPLETED,
+                      source: TransactionStatusSource.CONFIRMATION_TRACKER,
+                      createdAt: new Date(timestamp.getTime() + 2 * 60 * 1000),
+                    },
+                  ]
+                : [{ toStatus: status, source: TransactionStatusSource.WEBHOOK, createdAt: timestamp }],
+          },
         },
       })
     )
@@ -125,6 +172,13 @@ async function main() {
   await Promise.all(transactions)
   console.log(`✅ Created ${transactions.length} test transactions`)
 
+  // Seeded transactions bypass the processor, so the rollups are built in one pass
+  const rollups = await recomputeRollups(
+    { startDate: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000), endDate: now },
+    prisma
+  )
+  console.log(`✅ Built rollups for ${rollups.days} days`)
+
   console.log('🎉 Database seeding completed!')
 }
 
@@ -0,0 +1,77 @@
+// Backfill Script
+// Imports historical transactions for addresses on a network
+//
+// Usage:
+//   npm run backfill -- --network base --addresses 0xabc...,0xdef... --from-block 1000000
+//   Optional: --to-block 2000000 --sources transfers-from,transfers-to,logs
+
+import { prisma } from '@/lib/prisma'
+import { runBackfill, BACKFILL_SOURCES, type BackfillSource } from '@/lib/blockchain/backfill'
+import { isSupportedNetwork } from '@/lib/blockchain/indexer'
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1]
+      i++
+    }
+  }
+  return args
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (!args.network || !args.addresses || args['from-block'] === undefined) {
+    throw new Error('Usage: --network <name> --addresses <0x...,0x...> --from-block <n> [--to-block <n>] [--sources <list>]')
+  }
+
+  if (!isSupportedNetwork(args.network)) {
+    throw new Error(`Unsupported network: ${args.network}`)
+  }
+
+  const sources = args.sources?.split(',') as BackfillSource[] | undefined
+  const invalidSource = sources?.find((source) => !BACKFILL_SOURCES.includes(source))
+  if (invalidSource) {
+    throw new Error(`Unknown source: ${invalidSource}`)
+  }
+
+  const summary = await runBackfill({
+    network: args.network,
+    addresses: args.addresses.split(','),
+    fromBlock: parseInt(args['from-block']),
+    toBlock: args['to-block'] ? parseInt(args['to-block']) : undefined,
+    sources,
+  })
+
+  console.table(
+    summary.checkpoints.map((checkpoint) => ({
+      address: checkpoint.address,
+      source: checkpoint.source,
+      status: checkpoint.status,
+      processed: checkpoint.processedCount,
+      failed: checkpoint.failedCount,
+      lastBlock: checkpoint.lastProcessedBlock,
+    }))
+  )
+
+  for (const checkpoint of summary.running) {
+    console.warn(
+      `⚠️ ${checkpoint.source} for ${checkpoint.address} is still running elsewhere (last update ${checkpoint.updatedAt.toISOString()}) - run again once it stops`
+    )
+  }
+
+  if (summary.checkpoints.some((checkpoint) => checkpoint.status === 'FAILED')) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,57 @@
+// Rollup Recompute Script
+// Rebuilds the hourly and daily transaction rollups for a date range
+//
+// Usage:
+//   npm run rollups:recompute -- --from 2025-01-01
+//   Optional: --to 2025-02-01 (defaults to now; every UTC day the range touches is rebuilt)
+
+import { prisma } from '@/lib/prisma'
+import { recomputeRollups } from '@/lib/analytics/rollups'
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1]
+      i++
+    }
+  }
+  return args
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${name} date: ${value}`)
+  }
+  return date
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (!args.from) {
+    throw new Error('Usage: --from <date> [--to <date>]')
+  }
+
+  const startDate = parseDate(args.from, 'from')
+  const endDate = args.to ? parseDate(args.to, 'to') : new Date()
+  if (startDate > endDate) {
+    throw new Error('--from must be before --to')
+  }
+
+  const summary = await recomputeRollups({ startDate, endDate })
+
+  console.log(
+    `✅ Rebuilt rollups for ${summary.days} days (${summary.startDate.toISOString()} - ${summary.endDate.toISOString()}) from ${summary.transactions} transactions`
+  )
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Rollup recompute failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -145,14 +145,31 @@ export interface AnalyticsMetrics {
   netRevenue: number;
 }
 
+export interface MetricChange {
+  previous: number;
+  change: number; // Absolute difference (percentage points for rates)
+  changePercent: number | null; // Null when the previous value was zero
+}
+
+// Summary KPIs compared with an earlier period
+export interface AnalyticsComparison {
+  periodStart: Date;
+  periodEnd: Date;
+  totalTransactions: MetricChange;
+  totalVolumeUSD: MetricChange;
+  activeUsers: MetricChange;
+  successRate: MetricChange;
+}
+
 export interface AnalyticsSummary {
   totalTransactions: number;
   totalVolumeUSD: number;
   activeUsers: number;
   successRate: number;
-  growthRate?: number;
+  growthRate?: number; // Percentage change in transactions vs the comparison period
   volumeGrowth?: number;
   userGrowth?: number;
+  comparison?: AnalyticsComparison;
 }
 
 export interface NetworkStats {
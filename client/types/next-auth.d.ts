@@ -0,0 +1,23 @@
+// NextAuth type extensions
+// Adds the wallet address and user ID to sessions and tokens
+
+import type { DefaultSession } from 'next-auth'
+
+declare module 'next-auth' {
+  interface User {
+    walletAddress?: string
+  }
+
+  interface Session {
+    user: {
+      id: string
+      walletAddress: string
+    } & DefaultSession['user']
+  }
+}
+
+declare module '@auth/core/jwt' {
+  interface JWT {
+    walletAddress?: string
+  }
+}